@@ -0,0 +1,162 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import axios, { AxiosError } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import api from './axios';
+import { ApiError } from './errors';
+import { AUTH_TOKEN_KEY, REQUEST_MAX_RETRIES } from '../constants';
+import { sessionSync } from '../utils/sessionSync';
+import { tokenStorage } from '../utils/tokenStorage';
+
+vi.mock('../utils/sessionSync', () => ({ sessionSync: { broadcast: vi.fn(), subscribe: vi.fn() } }));
+// A hash keeps jsdom from attempting a real navigation on logout
+vi.mock('../utils/redirect', () => ({ buildLoginUrl: () => '#login' }));
+
+const respond = (config: InternalAxiosRequestConfig, status: number, data: unknown = {}) => {
+  const response: AxiosResponse = { data, status, statusText: '', headers: {}, config };
+  if (status < 400) return Promise.resolve(response);
+  return Promise.reject(new AxiosError(`Request failed with status code ${status}`, undefined, config, null, response));
+};
+
+// Backend that only accepts the renewed token
+const acceptNewToken = (config: InternalAxiosRequestConfig) =>
+  respond(config, config.headers.Authorization === 'Bearer new' ? 200 : 401, { success: true, data: config.url });
+
+const adapter = vi.fn(acceptNewToken);
+
+const refreshResponse = {
+  data: {
+    success: true,
+    data: {
+      token: 'new',
+      expiresIn: 3_600_000,
+      userId: 1,
+      username: 'admin',
+      email: 'admin@cesde.edu.co',
+      roles: ['ADMIN'],
+      permissions: [],
+    },
+  },
+};
+
+// Refresh call that settles when the test says so
+const deferRefresh = () => {
+  let settle: { resolve: (value: unknown) => void; reject: (error: unknown) => void } | undefined;
+  vi.spyOn(axios, 'post').mockImplementation(
+    () => new Promise((resolve, reject) => {
+      settle = { resolve, reject };
+    })
+  );
+  return {
+    resolve: () => settle?.resolve(refreshResponse),
+    reject: (error: unknown) => settle?.reject(error),
+  };
+};
+
+describe('api interceptors', () => {
+  beforeEach(() => {
+    adapter.mockImplementation(acceptNewToken);
+    api.defaults.adapter = adapter;
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'old');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    adapter.mockReset();
+    vi.mocked(sessionSync.broadcast).mockClear();
+    window.localStorage.clear();
+  });
+
+  describe('token refresh', () => {
+    it('shares one refresh between concurrent 401s and replays them with the new token', async () => {
+      const refresh = deferRefresh();
+
+      const requests = Promise.all([api.get('/students'), api.get('/courses'), api.get('/levels')]);
+      await vi.waitFor(() => expect(adapter).toHaveBeenCalledTimes(3));
+      refresh.resolve();
+
+      const responses = await requests;
+      expect(responses.map((response) => response.data.data)).toEqual(['/students', '/courses', '/levels']);
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBe('new');
+    });
+
+    it('rejects every queued request and signs out when the refresh fails', async () => {
+      const refresh = deferRefresh();
+
+      const requests = [api.get('/students'), api.get('/courses'), api.get('/levels')].map((request) =>
+        request.catch((error: unknown) => error)
+      );
+      await vi.waitFor(() => expect(adapter).toHaveBeenCalledTimes(3));
+      refresh.reject(new Error('Token refresh failed'));
+
+      const errors = await Promise.all(requests);
+      errors.forEach((error) => {
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).message).toBe('Token refresh failed');
+      });
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      // Nothing is replayed with the rejected session
+      expect(adapter).toHaveBeenCalledTimes(3);
+      expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+      expect(sessionSync.broadcast).toHaveBeenCalledWith({ type: 'logout' });
+    });
+
+    it('reports a 401 from a credentials endpoint without refreshing', async () => {
+      vi.spyOn(axios, 'post');
+
+      const error = await api
+        .post('/auth/change-password', { currentPassword: 'wrong', newPassword: 'Nueva123*' })
+        .catch((reason: unknown) => reason);
+
+      expect(error).toBeInstanceOf(ApiError);
+      expect((error as ApiError).status).toBe(401);
+      expect(axios.post).not.toHaveBeenCalled();
+      expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBe('old');
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      // No backoff wait
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+    });
+
+    it('retries a GET after a gateway error', async () => {
+      adapter.mockImplementationOnce((config) => respond(config, 503));
+      adapter.mockImplementationOnce((config) => respond(config, 200, { success: true, data: 'ok' }));
+
+      const response = await api.get('/students');
+
+      expect(response.data.data).toBe('ok');
+      expect(adapter).toHaveBeenCalledTimes(2);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+      adapter.mockImplementation((config) => respond(config, 503));
+
+      const error = await api.get('/students').catch((reason: unknown) => reason);
+
+      expect((error as ApiError).status).toBe(503);
+      expect(adapter).toHaveBeenCalledTimes(REQUEST_MAX_RETRIES + 1);
+    });
+
+    it('never sends a POST twice', async () => {
+      adapter.mockImplementation((config) => respond(config, 503));
+
+      const error = await api.post('/grades', { value: 4.5 }).catch((reason: unknown) => reason);
+
+      expect((error as ApiError).status).toBe(503);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry client errors', async () => {
+      adapter.mockImplementation((config) => respond(config, 404));
+
+      const error = await api.get('/students/99').catch((reason: unknown) => reason);
+
+      expect((error as ApiError).status).toBe(404);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+  });
+});
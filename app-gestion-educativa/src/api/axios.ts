@@ -1,20 +1,106 @@
-import axios, { AxiosError } from 'axios';
-import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
-import { API_BASE_URL, AUTH_TOKEN_KEY } from '../constants';
+import axios, { AxiosError, CanceledError } from 'axios';
+import type { AxiosAdapter, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import {
+  AUTH_TOKEN_KEY,
+  AUTH_USER_KEY,
+  TOKEN_EXPIRATION_KEY,
+  IMPERSONATOR_SESSION_KEY,
+  REQUEST_MAX_RETRIES,
+  REQUEST_RETRY_BASE_DELAY_MS,
+  REQUEST_RETRY_MAX_DELAY_MS,
+  REQUEST_OFFLINE_WAIT_MS,
+  USE_MOCK_API,
+  NETWORK_INSPECTOR_ENABLED,
+  TENANT_HEADER,
+} from '../constants';
+import type { ApiResponse, LoginResponse } from '../types';
+import { sessionSync } from '../utils/sessionSync';
+import { tokenStorage } from '../utils/tokenStorage';
+import { buildLoginUrl } from '../utils/redirect';
+import { connectivity } from '../utils/connectivity';
+import { networkLog } from '../utils/networkLog';
+import { DEFAULT_TENANT_ID, tenants } from '../utils/tenant';
+import type { Tenant } from '../utils/tenant';
+import { ApiError } from './errors';
 
 // Create axios instance
 const api: AxiosInstance = axios.create({
-  baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
   timeout: 30000,
 });
 
+// Campus headers; the single default campus sends none so its backend does
+// not need to accept the extra header
+const getTenantHeaders = (tenant: Tenant): Record<string, string> =>
+  tenant.id === DEFAULT_TENANT_ID ? {} : { [TENANT_HEADER]: tenant.id };
+
+// Point the instance at the selected campus, now and on every switch
+const applyTenant = () => {
+  const tenant = tenants.current();
+  api.defaults.baseURL = tenant.apiBaseUrl;
+  delete api.defaults.headers.common[TENANT_HEADER];
+  Object.assign(api.defaults.headers.common, getTenantHeaders(tenant));
+};
+
+applyTenant();
+tenants.subscribe(applyTenant);
+
+// Serve every request from the in-memory mock backend. Loaded lazily so the
+// fixtures stay out of the production bundle; the bare axios client is covered
+// too because the token refresh goes through it.
+if (USE_MOCK_API) {
+  const mockAdapter: AxiosAdapter = async (config) => (await import('../mocks/server')).handleMockRequest(config);
+  api.defaults.adapter = mockAdapter;
+  axios.defaults.adapter = mockAdapter;
+}
+
+type InspectedRequestConfig = InternalAxiosRequestConfig & {
+  _inspectorId?: number;
+  _retry?: boolean;
+  _retryCount?: number;
+};
+
+// Feed the network inspector. Registered before the other interceptors so it
+// sees every attempt as it leaves and its raw outcome, retries and token
+// refresh replays included.
+if (NETWORK_INSPECTOR_ENABLED) {
+  api.interceptors.request.use((config: InspectedRequestConfig) => {
+    config._inspectorId = networkLog.start({
+      method: (config.method ?? 'get').toUpperCase(),
+      url: config.url ?? '',
+      params: config.params,
+      body: config.data,
+      attempt: config._retryCount ?? (config._retry ? 1 : 0),
+    });
+    return config;
+  });
+
+  api.interceptors.response.use(
+    (response) => {
+      const id = (response.config as InspectedRequestConfig)._inspectorId;
+      if (id) networkLog.succeed(id, response.status, response.data);
+      return response;
+    },
+    (error: AxiosError) => {
+      const id = (error.config as InspectedRequestConfig | undefined)?._inspectorId;
+      if (id) {
+        if (error instanceof CanceledError) {
+          networkLog.cancel(id);
+        } else {
+          networkLog.fail(id, error.response?.status ?? null, error.response?.data, error.message);
+        }
+      }
+      return Promise.reject(error);
+    }
+  );
+}
+
 // Request interceptor - Add JWT token
 api.interceptors.request.use(
   (config: InternalAxiosRequestConfig) => {
-    const token = localStorage.getItem(AUTH_TOKEN_KEY);
+    const token = tokenStorage.getItem(AUTH_TOKEN_KEY);
     if (token && config.headers) {
       config.headers.Authorization = `Bearer ${token}`;
     }
@@ -25,48 +111,200 @@ api.interceptors.request.use(
   }
 );
 
+// Single-flight refresh state: only one refresh-token call is in flight at a
+// time, every other 401'd request waits in the queue for its outcome.
+let isRefreshing = false;
+let failedQueue: Array<{
+  resolve: (token: string) => void;
+  reject: (error: unknown) => void;
+}> = [];
+
+const processQueue = (error: unknown, token: string | null) => {
+  failedQueue.forEach(({ resolve, reject }) => {
+    if (token) {
+      resolve(token);
+    } else {
+      reject(error);
+    }
+  });
+  failedQueue = [];
+};
+
+const requestNewToken = async (): Promise<LoginResponse> => {
+  const token = tokenStorage.getItem(AUTH_TOKEN_KEY);
+  if (!token) {
+    throw new Error('No token found');
+  }
+
+  // Use the bare axios client so the refresh call never goes through this interceptor
+  const tenant = tenants.current();
+  const refreshResponse = await axios.post<ApiResponse<LoginResponse>>(
+    `${tenant.apiBaseUrl}/auth/refresh-token`,
+    {},
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        ...getTenantHeaders(tenant),
+      },
+    }
+  );
+
+  if (!refreshResponse.data.success || !refreshResponse.data.data) {
+    throw new Error('Token refresh failed');
+  }
+
+  const { token: newToken, expiresIn, ...userData } = refreshResponse.data.data;
+
+  tokenStorage.setItem(AUTH_TOKEN_KEY, newToken);
+  tokenStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
+  tokenStorage.setItem(TOKEN_EXPIRATION_KEY, (Date.now() + expiresIn).toString());
+  sessionSync.broadcast({ type: 'refresh', userId: userData.userId });
+
+  return refreshResponse.data.data;
+};
+
+let pendingRefresh: Promise<LoginResponse> | null = null;
+
+/**
+ * Renews the stored session on a bare request, so a failed refresh rejects
+ * right away instead of going through the 401 handling below. Used by the
+ * interceptor and by the proactive renewal (authService.refreshToken); calls
+ * made while a refresh is running share it.
+ */
+export const refreshAccessToken = (): Promise<LoginResponse> => {
+  if (!pendingRefresh) {
+    pendingRefresh = requestNewToken()
+      .catch((error) => Promise.reject(ApiError.from(error)))
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _retry?: boolean; _retryCount?: number };
+
+// Endpoints whose 401 means wrong credentials, not an expired token: the
+// caller shows the error instead of refreshing and logging the user out
+const NO_REFRESH_URLS = ['/auth/login', '/auth/2fa/verify', '/auth/change-password'];
+
+const shouldRefresh = (config: RetriableRequestConfig) =>
+  !config._retry && !NO_REFRESH_URLS.some((url) => config.url?.endsWith(url));
+
+// Methods that can be sent twice without changing the result
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+// Gateway and throttling errors that usually clear up on their own
+const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+const shouldRetry = (error: AxiosError, config: RetriableRequestConfig) => {
+  if (error instanceof CanceledError) return false;
+  if ((config._retryCount ?? 0) >= REQUEST_MAX_RETRIES) return false;
+
+  // A write may have reached the server before the link dropped, so it is
+  // never sent twice; callers decide what to do with it (e.g. queue it offline)
+  if (!IDEMPOTENT_METHODS.includes((config.method ?? 'get').toLowerCase())) return false;
+
+  // Network failure or timeout, or a gateway error
+  return !error.response || RETRYABLE_STATUSES.includes(error.response.status);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Replays a failed request after an exponential backoff with full jitter.
+// While the browser is offline the retry waits a while for the connection to
+// return, then fails with the original error.
+const retryRequest = (config: RetriableRequestConfig, error: AxiosError) => {
+  const attempt = config._retryCount ?? 0;
+  config._retryCount = attempt + 1;
+
+  const delay = Math.random() * Math.min(REQUEST_RETRY_MAX_DELAY_MS, REQUEST_RETRY_BASE_DELAY_MS * 2 ** attempt);
+  const signal = config.signal as AbortSignal | undefined;
+
+  return connectivity.trackRetry(
+    sleep(delay, signal)
+      .then(() =>
+        connectivity.waitForOnline(signal, REQUEST_OFFLINE_WAIT_MS).catch((waitError) =>
+          Promise.reject(signal?.aborted ? waitError : error)
+        )
+      )
+      .then(() => api(config))
+      .catch((retryError) => Promise.reject(ApiError.from(signal?.aborted ? new CanceledError() : retryError)))
+  );
+};
+
 // Response interceptor - Handle errors and token refresh
 api.interceptors.response.use(
   (response) => response,
   async (error: AxiosError) => {
-    const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+    const originalRequest = error.config as RetriableRequestConfig | undefined;
 
     // Handle 401 Unauthorized - Try to refresh token
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      originalRequest._retry = true;
-
-      try {
-        const token = localStorage.getItem(AUTH_TOKEN_KEY);
-        if (token) {
-          const refreshResponse = await axios.post(
-            `${API_BASE_URL}/auth/refresh-token`,
-            {},
-            {
-              headers: {
-                Authorization: `Bearer ${token}`,
-              },
-            }
-          );
-
-          const newToken = refreshResponse.data.data.token;
-          localStorage.setItem(AUTH_TOKEN_KEY, newToken);
-
+    if (error.response?.status === 401 && originalRequest && shouldRefresh(originalRequest)) {
+      // A refresh is already running - wait for it and replay with the new token
+      if (isRefreshing) {
+        return new Promise<string>((resolve, reject) => {
+          failedQueue.push({ resolve, reject });
+        }).then((newToken) => {
+          originalRequest._retry = true;
           if (originalRequest.headers) {
             originalRequest.headers.Authorization = `Bearer ${newToken}`;
           }
-
           return api(originalRequest);
+        });
+      }
+
+      originalRequest._retry = true;
+
+      if (!tokenStorage.getItem(AUTH_TOKEN_KEY)) {
+        return Promise.reject(ApiError.from(error));
+      }
+
+      isRefreshing = true;
+
+      try {
+        const { token: newToken } = await refreshAccessToken();
+        processQueue(null, newToken);
+
+        if (originalRequest.headers) {
+          originalRequest.headers.Authorization = `Bearer ${newToken}`;
         }
+
+        return api(originalRequest);
       } catch (refreshError) {
+        const apiError = ApiError.from(refreshError);
+        processQueue(apiError, null);
+
         // Token refresh failed - logout user
-        localStorage.removeItem(AUTH_TOKEN_KEY);
-        localStorage.removeItem('auth_user');
-        window.location.href = '/login';
-        return Promise.reject(refreshError);
+        tokenStorage.removeItem(AUTH_TOKEN_KEY);
+        tokenStorage.removeItem(AUTH_USER_KEY);
+        tokenStorage.removeItem(TOKEN_EXPIRATION_KEY);
+        tokenStorage.removeItem(IMPERSONATOR_SESSION_KEY);
+        sessionSync.broadcast({ type: 'logout' });
+        window.location.href = buildLoginUrl();
+        return Promise.reject(apiError);
+      } finally {
+        isRefreshing = false;
       }
     }
 
-    return Promise.reject(error);
+    // Connection blips and gateway errors get a few more attempts
+    if (originalRequest && shouldRetry(error, originalRequest)) {
+      return retryRequest(originalRequest, error);
+    }
+
+    // Callers always get an ApiError with the backend message and field errors
+    return Promise.reject(ApiError.from(error));
   }
 );
 
@@ -0,0 +1,92 @@
+import type * as z from 'zod';
+import { API_CONTRACT_MODE } from '../constants';
+import { ApiContractError } from './errors';
+import type { ContractIssue } from './errors';
+
+/** A mismatch between the backend and `schemas/api.ts`, aggregated per endpoint and field */
+export interface ContractDrift extends ContractIssue {
+  endpoint: string;
+  /** Value received at `path` the first time the drift was seen */
+  sample: unknown;
+  occurrences: number;
+  lastSeenAt: string;
+}
+
+const drifts = new Map<string, ContractDrift>();
+
+// `/students/12/grades?x=1` and `/students/7/grades` are the same endpoint
+const normalizeEndpoint = (url: string) => url.split('?')[0].replace(/\/\d+(?=\/|$)/g, '/:id');
+
+const formatPath = (path: PropertyKey[]) =>
+  path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[]`;
+    return result ? `${result}.${String(key)}` : String(key);
+  }, '') || '(root)';
+
+const valueAt = (data: unknown, path: PropertyKey[]) =>
+  path.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<PropertyKey, unknown>)[key] : undefined),
+    data
+  );
+
+/**
+ * Checks `data` received from `url` against `schema` and returns it unchanged.
+ * Mismatches are recorded and logged once per endpoint and field, so a drifted
+ * list does not flood the console with one warning per row. In strict mode the
+ * request is rejected with an `ApiContractError` as well.
+ */
+export function validateResponse<T>(schema: z.ZodType, data: T, url: string): T {
+  if (API_CONTRACT_MODE === 'off') return data;
+
+  const result = schema.safeParse(data);
+  if (result.success) return data;
+
+  const endpoint = normalizeEndpoint(url);
+  const now = new Date().toISOString();
+  const issues: ContractIssue[] = result.error.issues.map((issue) => ({
+    path: formatPath(issue.path),
+    message: issue.message,
+  }));
+  const newDrifts: ContractDrift[] = [];
+
+  result.error.issues.forEach((issue, index) => {
+    const { path, message } = issues[index];
+    const key = `${endpoint} ${path} ${message}`;
+    const known = drifts.get(key);
+
+    if (known) {
+      known.occurrences += 1;
+      known.lastSeenAt = now;
+      return;
+    }
+
+    const drift: ContractDrift = {
+      endpoint,
+      path,
+      message,
+      sample: valueAt(data, issue.path),
+      occurrences: 1,
+      lastSeenAt: now,
+    };
+    drifts.set(key, drift);
+    newDrifts.push(drift);
+  });
+
+  if (newDrifts.length > 0) {
+    console.warn(`API contract drift in ${endpoint}:`);
+    console.table(newDrifts.map(({ path, message, sample }) => ({ path, message, sample })));
+  }
+
+  if (API_CONTRACT_MODE === 'strict') {
+    throw new ApiContractError(endpoint, issues);
+  }
+
+  return data;
+}
+
+/** Every drift seen since the app loaded, e.g. to inspect from the console */
+export const getContractDrifts = (): ContractDrift[] => [...drifts.values()];
+
+export const clearContractDrifts = (): void => {
+  drifts.clear();
+};
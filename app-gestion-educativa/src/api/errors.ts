@@ -0,0 +1,115 @@
+import { AxiosError, CanceledError } from 'axios';
+import type { AxiosResponse } from 'axios';
+import type { ApiFieldError, ApiResponse } from '../types';
+
+/**
+ * Error every request through the shared axios instance rejects with.
+ * `response` is the raw axios response, kept so existing
+ * `error.response?.data?.message` / `error.response?.status` checks still work.
+ */
+export class ApiError extends Error {
+  /** HTTP status, or null when the server could not be reached */
+  status: number | null;
+  /** Validation messages keyed by DTO field name */
+  fieldErrors: Record<string, string>;
+  response?: AxiosResponse<ApiResponse<unknown>>;
+  /** The request was aborted through its AbortSignal */
+  isCanceled = false;
+
+  constructor(
+    message: string,
+    status: number | null = null,
+    fieldErrors: Record<string, string> = {},
+    response?: AxiosResponse<ApiResponse<unknown>>
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.fieldErrors = fieldErrors;
+    this.response = response;
+  }
+
+  get hasFieldErrors(): boolean {
+    return Object.keys(this.fieldErrors).length > 0;
+  }
+
+  static from(error: unknown): ApiError {
+    if (error instanceof ApiError) return error;
+
+    if (error instanceof AxiosError) {
+      const response = error.response as AxiosResponse<ApiResponse<unknown>> | undefined;
+      const body = response?.data;
+      const apiError = new ApiError(
+        body?.message || error.message,
+        response?.status ?? null,
+        parseFieldErrors(body),
+        response
+      );
+      apiError.isCanceled = error instanceof CanceledError;
+      return apiError;
+    }
+
+    return new ApiError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** A field of a response that does not match its schema */
+export interface ContractIssue {
+  /** Dotted field path, with `[]` for array items */
+  path: string;
+  message: string;
+}
+
+/**
+ * Response that arrived fine but does not match its schema in `schemas/api.ts`.
+ * Only thrown when `VITE_API_CONTRACT_MODE=strict`.
+ */
+export class ApiContractError extends ApiError {
+  endpoint: string;
+  issues: ContractIssue[];
+
+  constructor(endpoint: string, issues: ContractIssue[]) {
+    super('La respuesta del servidor no tiene el formato esperado');
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
+
+/** Whether a request failed only because its caller aborted it */
+export const isCanceledError = (error: unknown): boolean => isApiError(error) && error.isCanceled;
+
+/** Whether a request failed without reaching the server, e.g. while offline */
+export const isNetworkError = (error: unknown): boolean =>
+  isApiError(error) && error.status === null && !error.isCanceled && !(error instanceof ApiContractError);
+
+// Validation errors come either as `errors: [{ field, message }]` or as a
+// `{ field: message }` map, in `errors` or (for 400 responses) in `data`
+const parseFieldErrors = (body?: ApiResponse<unknown>): Record<string, string> => {
+  const source = body?.errors ?? (body && !body.success ? body.data : undefined);
+  if (!source || typeof source !== 'object') return {};
+
+  if (Array.isArray(source)) {
+    return Object.fromEntries(
+      (source as ApiFieldError[])
+        .filter((item) => item && typeof item.field === 'string')
+        .map((item) => [item.field, item.message])
+    );
+  }
+
+  return Object.fromEntries(
+    Object.entries(source as Record<string, unknown>).filter(
+      (entry): entry is [string, string] => typeof entry[1] === 'string'
+    )
+  );
+};
+
+/** Backend message of an API error, or `fallback` when there is none */
+export const getApiErrorMessage = (error: unknown, fallback: string): string => {
+  if (isApiError(error) && error.response?.data?.message) {
+    return error.response.data.message;
+  }
+  return fallback;
+};
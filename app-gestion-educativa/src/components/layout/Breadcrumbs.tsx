@@ -0,0 +1,32 @@
+import { Link, useLocation } from 'react-router-dom';
+import { ChevronRight } from 'lucide-react';
+import { getBreadcrumbs } from '../../routes/registry';
+
+export default function Breadcrumbs() {
+  const { pathname } = useLocation();
+  const crumbs = getBreadcrumbs(pathname);
+
+  return (
+    <nav aria-label="Breadcrumb" className="mb-4">
+      <ol className="flex items-center gap-1 text-sm text-gray-500">
+        {crumbs.map((crumb, index) => {
+          const isLast = index === crumbs.length - 1;
+          return (
+            <li key={crumb.path} className="flex items-center gap-1">
+              {index > 0 && <ChevronRight className="w-4 h-4" />}
+              {isLast ? (
+                <span className="font-medium text-gray-900" aria-current="page">
+                  {crumb.title}
+                </span>
+              ) : (
+                <Link to={crumb.path} className="hover:text-cesde-primary">
+                  {crumb.title}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
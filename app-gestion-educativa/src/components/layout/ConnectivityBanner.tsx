@@ -0,0 +1,85 @@
+import { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, CloudUpload, Loader2, WifiOff } from 'lucide-react';
+import { useAuth } from '../../contexts';
+import { useConnectivity } from '../../hooks/useConnectivity';
+import { useAttendanceOutbox } from '../../hooks/useAttendanceOutbox';
+import { attendanceOutbox } from '../../services/attendanceOutbox';
+
+const sheetsLabel = (count: number) =>
+  `${count} ${count === 1 ? 'hoja de asistencia' : 'hojas de asistencia'}`;
+
+export default function ConnectivityBanner() {
+  const { user } = useAuth();
+  const { isOnline, pendingRetries } = useConnectivity();
+  const { sheets, isSyncing } = useAttendanceOutbox();
+
+  // Replay the sheets a user left in the outbox as soon as they sign in
+  useEffect(() => {
+    if (user?.userId) {
+      void attendanceOutbox.sync();
+    }
+  }, [user?.userId]);
+
+  const needsReview = sheets.filter((sheet) => sheet.state !== 'PENDING').length;
+
+  if (!isOnline) {
+    return (
+      <div
+        role="status"
+        className="flex items-center gap-2 px-8 py-2 bg-gray-800 text-white text-sm"
+      >
+        <WifiOff className="w-4 h-4" />
+        <span>
+          Sin conexión a internet. Las solicitudes pendientes se reintentarán al recuperar la conexión.
+          {sheets.length > 0 && ` ${sheetsLabel(sheets.length)} pendiente(s) de sincronizar.`}
+        </span>
+      </div>
+    );
+  }
+
+  if (pendingRetries > 0) {
+    return (
+      <div
+        role="status"
+        className="flex items-center gap-2 px-8 py-2 bg-yellow-100 text-yellow-900 text-sm"
+      >
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Conexión inestable, reintentando...</span>
+      </div>
+    );
+  }
+
+  if (needsReview > 0) {
+    return (
+      <div
+        role="status"
+        className="flex items-center gap-2 px-8 py-2 bg-red-100 text-red-900 text-sm"
+      >
+        <AlertTriangle className="w-4 h-4" />
+        <span>
+          {sheetsLabel(needsReview)} guardada(s) sin conexión requiere(n) revisión.{' '}
+          <Link to="/attendance" className="font-medium underline">
+            Ir a asistencia
+          </Link>
+        </span>
+      </div>
+    );
+  }
+
+  if (sheets.length > 0) {
+    return (
+      <div
+        role="status"
+        className="flex items-center gap-2 px-8 py-2 bg-blue-100 text-blue-900 text-sm"
+      >
+        {isSyncing ? <Loader2 className="w-4 h-4 animate-spin" /> : <CloudUpload className="w-4 h-4" />}
+        <span>
+          {isSyncing ? 'Sincronizando' : 'Pendiente(s) de sincronizar:'} {sheetsLabel(sheets.length)} guardada(s) sin conexión
+        </span>
+      </div>
+    );
+  }
+
+  return null;
+}
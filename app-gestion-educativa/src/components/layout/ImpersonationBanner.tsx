@@ -0,0 +1,48 @@
+import { useNavigate } from 'react-router-dom';
+import { Eye, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts';
+import { Button } from '../ui/button';
+import { LOGIN_PATH } from '../../constants';
+
+export default function ImpersonationBanner() {
+  const { user, impersonator, stopImpersonation } = useAuth();
+  const navigate = useNavigate();
+
+  if (!impersonator) return null;
+
+  const handleExit = () => {
+    try {
+      stopImpersonation();
+      toast.success(`Sesión restaurada como ${impersonator.username}`);
+      navigate('/users');
+    } catch (error) {
+      console.error('Error restoring session:', error);
+      toast.error('La sesión del administrador expiró', {
+        description: 'Inicia sesión nuevamente para continuar',
+      });
+      navigate(LOGIN_PATH, { replace: true });
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-40 flex items-center justify-between gap-4 px-8 py-2 bg-cesde-accent text-white">
+      <div className="flex items-center gap-2 text-sm">
+        <Eye className="w-4 h-4" />
+        <span>
+          Estás viendo el sistema como <strong>{user?.username}</strong>
+          {' '}({user?.roles.join(', ')}). Sesión original: {impersonator.username}
+        </span>
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2 text-gray-900"
+        onClick={handleExit}
+      >
+        <LogOut className="w-4 h-4" />
+        Salir de la suplantación
+      </Button>
+    </div>
+  );
+}
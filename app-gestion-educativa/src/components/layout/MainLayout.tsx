@@ -1,35 +1,23 @@
+import { useState } from 'react';
 import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { useAuth } from '../../contexts';
-import {
-  LayoutDashboard,
-  Users,
-  GraduationCap,
-  BookOpen,
-  ClipboardList,
-  Calendar,
-  UserCog,
-  LogOut,
-  Layers,
-  BookMarked,
-  CalendarDays,
-  UserPlus,
-  Shield,
-  UserCheck,
-} from 'lucide-react';
+import { LogOut, KeyRound, ShieldCheck } from 'lucide-react';
 import { Button } from '../ui/button';
+import ChangePasswordDialog from '../shared/ChangePasswordDialog';
+import Breadcrumbs from './Breadcrumbs';
+import ImpersonationBanner from './ImpersonationBanner';
+import ConnectivityBanner from './ConnectivityBanner';
+import TenantSelect from '../shared/TenantSelect';
 import { toast } from 'sonner';
-import { ROLES } from '../../constants';
-
-interface NavItem {
-  name: string;
-  path: string;
-  icon: React.ReactNode;
-  roles?: string[];
-}
+import { protectedRoutes } from '../../routes/registry';
+import { useTenant } from '../../hooks/useTenant';
+import { tenants } from '../../utils/tenant';
 
 export default function MainLayout() {
-  const { user, logout, hasRole } = useAuth();
+  const { user, logout, hasPermission, switchTenant } = useAuth();
+  const tenant = useTenant();
   const navigate = useNavigate();
+  const [isPasswordDialogOpen, setIsPasswordDialogOpen] = useState(false);
 
   const handleLogout = () => {
     logout();
@@ -37,87 +25,16 @@ export default function MainLayout() {
     navigate('/login');
   };
 
-  const navItems: NavItem[] = [
-    {
-      name: 'Dashboard',
-      path: '/dashboard',
-      icon: <LayoutDashboard className="w-5 h-5" />,
-    },
-    {
-      name: 'Estudiantes',
-      path: '/students',
-      icon: <Users className="w-5 h-5" />,
-      roles: [ROLES.ADMIN, ROLES.PROFESOR],
-    },
-    {
-      name: 'Profesores',
-      path: '/teachers',
-      icon: <GraduationCap className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Cursos',
-      path: '/courses',
-      icon: <BookOpen className="w-5 h-5" />,
-      roles: [ROLES.ADMIN, ROLES.PROFESOR],
-    },
-    {
-      name: 'Niveles',
-      path: '/levels',
-      icon: <Layers className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Materias',
-      path: '/subjects',
-      icon: <BookMarked className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Asignaciones',
-      path: '/subject-assignments',
-      icon: <UserCheck className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Períodos',
-      path: '/academic-periods',
-      icon: <CalendarDays className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Inscripciones',
-      path: '/enrollments',
-      icon: <UserPlus className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Calificaciones',
-      path: '/grades',
-      icon: <ClipboardList className="w-5 h-5" />,
-    },
-    {
-      name: 'Asistencia',
-      path: '/attendance',
-      icon: <Calendar className="w-5 h-5" />,
-    },
-    {
-      name: 'Usuarios',
-      path: '/users',
-      icon: <UserCog className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-    {
-      name: 'Roles',
-      path: '/roles',
-      icon: <Shield className="w-5 h-5" />,
-      roles: [ROLES.ADMIN],
-    },
-  ];
+  // Without a session on the new campus the route guard sends the user to the login
+  const handleTenantChange = (tenantId: string) => {
+    if (!switchTenant(tenantId)) {
+      toast.info(`Inicia sesión en ${tenants.current().name} para continuar`);
+    }
+  };
 
-  // Filter nav items based on user roles
-  const visibleNavItems = navItems.filter(
-    (item) => !item.roles || hasRole(item.roles)
+  // Sidebar entries come from the route registry, filtered by user permissions
+  const visibleNavItems = protectedRoutes.filter(
+    (route) => route.icon && (!route.permissions || hasPermission(route.permissions))
   );
 
   return (
@@ -130,15 +47,16 @@ export default function MainLayout() {
             CESDE
           </h1>
           <p className="text-xs text-gray-500 mt-0.5">Gestión Educativa</p>
+          <TenantSelect onSelect={handleTenantChange} className="mt-3 h-9" />
         </div>
 
         {/* Navigation */}
         <nav className="flex-1 p-3 overflow-y-auto">
           <div className="space-y-0.5">
-            {visibleNavItems.map((item) => (
+            {visibleNavItems.map(({ path, title, icon: Icon }) => (
               <NavLink
-                key={item.path}
-                to={item.path}
+                key={path}
+                to={path}
                 className={({ isActive }) =>
                   `flex items-center gap-2.5 px-3 py-2.5 rounded-lg transition-colors ${
                     isActive
@@ -147,8 +65,8 @@ export default function MainLayout() {
                   }`
                 }
               >
-                {item.icon}
-                <span className="text-sm font-medium">{item.name}</span>
+                {Icon && <Icon className="w-5 h-5" />}
+                <span className="text-sm font-medium">{title}</span>
               </NavLink>
             ))}
           </div>
@@ -169,6 +87,22 @@ export default function MainLayout() {
               </p>
             </div>
           </div>
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-2 mb-1"
+            onClick={() => setIsPasswordDialogOpen(true)}
+          >
+            <KeyRound className="w-4 h-4" />
+            Cambiar Contraseña
+          </Button>
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-2 mb-1"
+            onClick={() => navigate('/security')}
+          >
+            <ShieldCheck className="w-4 h-4" />
+            Seguridad
+          </Button>
           <Button
             variant="outline"
             className="w-full justify-start gap-2"
@@ -180,9 +114,17 @@ export default function MainLayout() {
         </div>
       </aside>
 
+      <ChangePasswordDialog open={isPasswordDialogOpen} onOpenChange={setIsPasswordDialogOpen} />
+
       {/* Main Content */}
       <main className="flex-1 overflow-auto">
-        <div className="px-8 pt-4 pb-8">
+        <div className="sticky top-0 z-40">
+          <ConnectivityBanner />
+          <ImpersonationBanner />
+        </div>
+        {/* Remounted on campus switch so pages drop the previous campus' data */}
+        <div key={tenant.id} className="px-8 pt-4 pb-8">
+          <Breadcrumbs />
           <Outlet />
         </div>
       </main>
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { AlertTriangle, CloudUpload, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Badge } from '../ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../ui/table';
+import { useConnectivity } from '../../hooks/useConnectivity';
+import { attendanceOutbox } from '../../services/attendanceOutbox';
+import type { PendingAttendanceSheet } from '../../services/attendanceOutbox';
+import type { Attendance } from '../../types';
+
+const STATUS_LABELS: Record<Attendance['status'], string> = {
+  PRESENTE: 'Presente',
+  AUSENTE: 'Ausente',
+  TARDANZA: 'Tardanza',
+  EXCUSADO: 'Excusado',
+};
+
+interface AttendanceSyncPanelProps {
+  sheet: PendingAttendanceSheet;
+}
+
+/**
+ * State of the attendance of the selected session saved offline: waiting to be
+ * synced, in conflict with changes made on the server meanwhile, or rejected.
+ */
+export default function AttendanceSyncPanel({ sheet }: AttendanceSyncPanelProps) {
+  const { isOnline } = useConnectivity();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, errorMessage: string) => {
+    try {
+      setIsBusy(true);
+      await action();
+    } catch (error) {
+      console.error('Error updating attendance outbox:', error);
+      toast.error(errorMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const capturedAt = new Date(sheet.capturedAt).toLocaleString('es-ES');
+
+  if (sheet.state === 'CONFLICT') {
+    return (
+      <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+        <div className="flex items-start gap-2 text-sm text-yellow-900">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <p>
+            La asistencia que tomaste sin conexión ({capturedAt}) no coincide con la registrada en el servidor
+            mientras tanto. Elige qué valor conservar para cada estudiante.
+          </p>
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Estudiante</TableHead>
+              <TableHead className="text-center">Sin conexión</TableHead>
+              <TableHead className="text-center">En el servidor</TableHead>
+              <TableHead className="text-right">Resolver</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sheet.conflicts.map((conflict) => (
+              <TableRow key={conflict.subjectEnrollmentId}>
+                <TableCell className="font-medium">{conflict.studentName}</TableCell>
+                <TableCell className="text-center">
+                  <Badge variant="info">{STATUS_LABELS[conflict.localStatus]}</Badge>
+                </TableCell>
+                <TableCell className="text-center">
+                  <Badge variant="default">{STATUS_LABELS[conflict.serverStatus]}</Badge>
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() =>
+                      run(
+                        () => attendanceOutbox.resolveConflict(sheet.id, conflict.subjectEnrollmentId, 'local'),
+                        'Error al resolver el conflicto'
+                      )
+                    }
+                  >
+                    Mantener el mío
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={isBusy}
+                    onClick={() =>
+                      run(
+                        () => attendanceOutbox.resolveConflict(sheet.id, conflict.subjectEnrollmentId, 'server'),
+                        'Error al resolver el conflicto'
+                      )
+                    }
+                  >
+                    Usar el del servidor
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  }
+
+  if (sheet.state === 'FAILED') {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-start gap-2 text-sm text-red-900">
+          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+          <p>
+            No se pudo sincronizar la asistencia tomada sin conexión ({capturedAt}): {sheet.error}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy || !isOnline}
+            onClick={() => run(() => attendanceOutbox.retry(sheet.id), 'Error al reintentar la sincronización')}
+          >
+            <RefreshCw className="mr-2 h-4 w-4" />
+            Reintentar
+          </Button>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => run(() => attendanceOutbox.discard(sheet.id), 'Error al descartar la asistencia')}
+          >
+            <Trash2 className="mr-2 h-4 w-4" />
+            Descartar
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 flex flex-wrap items-center justify-between gap-3">
+      <div className="flex items-start gap-2 text-sm text-blue-900">
+        <CloudUpload className="h-4 w-4 mt-0.5 shrink-0" />
+        <p>
+          Asistencia guardada en este dispositivo ({capturedAt}). Se sincronizará automáticamente al recuperar la
+          conexión.
+        </p>
+      </div>
+      {isOnline && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => run(() => attendanceOutbox.sync(), 'Error al sincronizar la asistencia')}
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Sincronizar ahora
+        </Button>
+      )}
+    </div>
+  );
+}
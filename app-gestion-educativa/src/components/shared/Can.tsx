@@ -0,0 +1,15 @@
+import { useAuth } from '../../contexts';
+import type { Permission } from '../../constants';
+
+interface CanProps {
+  permission: Permission | Permission[];
+  children: React.ReactNode;
+  fallback?: React.ReactNode;
+}
+
+// Renders its children only when the current user holds at least one of the permissions
+export default function Can({ permission, children, fallback = null }: CanProps) {
+  const { hasPermission } = useAuth();
+
+  return <>{hasPermission(permission) ? children : fallback}</>;
+}
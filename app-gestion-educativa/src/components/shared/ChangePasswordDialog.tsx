@@ -0,0 +1,132 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+import { Loader2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '../ui/dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { authService } from '../../services/authService';
+import { getApiErrorMessage } from '../../api/errors';
+import { selfPasswordChangeSchema } from '../../schemas/password';
+import type { SelfPasswordChangeFormData } from '../../schemas/password';
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function ChangePasswordDialog({ open, onOpenChange }: ChangePasswordDialogProps) {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { register, handleSubmit, formState: { errors }, reset, setError } = useForm<SelfPasswordChangeFormData>({
+    resolver: zodResolver(selfPasswordChangeSchema),
+    defaultValues: {
+      currentPassword: '',
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  const handleClose = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const onSubmit = async (data: SelfPasswordChangeFormData) => {
+    try {
+      setIsSaving(true);
+      await authService.changePassword({
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      toast.success('Contraseña actualizada exitosamente');
+      handleClose();
+    } catch (error: unknown) {
+      console.error('Error changing password:', error);
+      const err = error as { response?: { status?: number } };
+      const message = getApiErrorMessage(error, 'Error al cambiar la contraseña');
+
+      // 400/401 from this endpoint means the current password did not match
+      if (err.response?.status === 400 || err.response?.status === 401) {
+        setError('currentPassword', { message });
+      } else {
+        setError('root.serverError', { message });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => (isOpen ? onOpenChange(true) : handleClose())}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cambiar mi contraseña</DialogTitle>
+          <DialogDescription>
+            Confirma tu contraseña actual y elige una nueva
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="px-5 pb-1">
+          <div className="space-y-3">
+            <div>
+              <Label htmlFor="currentPassword">Contraseña Actual</Label>
+              <Input
+                id="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                {...register('currentPassword')}
+              />
+              {errors.currentPassword && (
+                <p className="text-sm text-red-500 mt-1">{errors.currentPassword.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="selfNewPassword">Nueva Contraseña</Label>
+              <Input
+                id="selfNewPassword"
+                type="password"
+                autoComplete="new-password"
+                {...register('newPassword')}
+                placeholder="Mínimo 6 caracteres"
+              />
+              {errors.newPassword && (
+                <p className="text-sm text-red-500 mt-1">{errors.newPassword.message}</p>
+              )}
+            </div>
+
+            <div>
+              <Label htmlFor="selfConfirmPassword">Confirmar Contraseña</Label>
+              <Input
+                id="selfConfirmPassword"
+                type="password"
+                autoComplete="new-password"
+                {...register('confirmPassword')}
+                placeholder="Repita la contraseña"
+              />
+              {errors.confirmPassword && (
+                <p className="text-sm text-red-500 mt-1">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            {errors.root?.serverError && (
+              <p className="text-sm text-red-500">{errors.root.serverError.message}</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2 pt-4 mt-4">
+            <Button type="button" variant="outline" onClick={handleClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Cambiar Contraseña
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
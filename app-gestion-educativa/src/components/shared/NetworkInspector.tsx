@@ -0,0 +1,230 @@
+import { useState } from 'react';
+import { Activity, Copy, Trash2, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Badge } from '../ui/badge';
+import { useNetworkLog } from '../../hooks/useNetworkLog';
+import { networkLog } from '../../utils/networkLog';
+import type { NetworkEntry } from '../../utils/networkLog';
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+type EntryFilter = 'all' | 'errors' | 'pending' | 'duplicates';
+
+const ENTRY_FILTERS: { value: EntryFilter; label: string }[] = [
+  { value: 'all', label: 'Todas' },
+  { value: 'errors', label: 'Con error' },
+  { value: 'pending', label: 'En curso' },
+  { value: 'duplicates', label: 'Duplicadas' },
+];
+
+const matchesFilter = (entry: NetworkEntry, filter: EntryFilter) => {
+  if (filter === 'errors') return entry.state === 'error';
+  if (filter === 'pending') return entry.state === 'pending';
+  if (filter === 'duplicates') return entry.duplicateOf !== undefined;
+  return true;
+};
+
+const getStatusVariant = (entry: NetworkEntry): 'default' | 'success' | 'warning' | 'error' => {
+  if (entry.state === 'success') return 'success';
+  if (entry.state === 'error') return 'error';
+  if (entry.state === 'canceled') return 'warning';
+  return 'default';
+};
+
+const getStatusLabel = (entry: NetworkEntry) => {
+  if (entry.state === 'pending') return '...';
+  if (entry.state === 'canceled') return 'Cancelada';
+  return entry.status ?? 'Sin respuesta';
+};
+
+const formatTime = (entry: NetworkEntry) =>
+  new Date(performance.timeOrigin + entry.startedAt).toLocaleTimeString('es-ES');
+
+const formatJson = (value: unknown) => (value === undefined ? '(vacío)' : JSON.stringify(value, null, 2));
+
+/**
+ * Floating developer panel with the requests of the shared axios instance.
+ * Only mounted when VITE_NETWORK_INSPECTOR is enabled.
+ */
+export default function NetworkInspector() {
+  const { entries } = useNetworkLog();
+  const [isOpen, setIsOpen] = useState(false);
+  const [method, setMethod] = useState<string | null>(null);
+  const [filter, setFilter] = useState<EntryFilter>('all');
+  const [search, setSearch] = useState('');
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const duplicates = entries.filter((entry) => entry.duplicateOf !== undefined).length;
+  const visibleEntries = entries.filter(
+    (entry) =>
+      (!method || entry.method === method) &&
+      matchesFilter(entry, filter) &&
+      entry.url.toLowerCase().includes(search.toLowerCase())
+  );
+  const selected = entries.find((entry) => entry.id === selectedId);
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="fixed bottom-4 left-4 z-50 flex items-center gap-2 rounded-full bg-gray-900 px-4 py-2 text-sm text-white shadow-lg hover:bg-gray-800"
+      >
+        <Activity className="h-4 w-4" />
+        Red ({entries.length})
+        {duplicates > 0 && <Badge variant="warning">{duplicates} duplicadas</Badge>}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed inset-x-0 bottom-0 z-50 flex h-96 flex-col border-t border-gray-300 bg-white text-sm shadow-2xl">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 border-b border-gray-200 px-4 py-2">
+        <Activity className="h-4 w-4 text-gray-500" />
+        <span className="font-semibold text-gray-900">Inspector de red</span>
+        <span className="text-gray-500">
+          {visibleEntries.length} de {entries.length}
+        </span>
+        {duplicates > 0 && (
+          <Badge variant="warning">
+            <Copy className="mr-1 h-3 w-3" />
+            {duplicates} duplicadas
+          </Badge>
+        )}
+
+        <div className="ml-auto flex flex-wrap items-center gap-1">
+          <Input
+            placeholder="Filtrar por URL..."
+            value={search}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearch(e.target.value)}
+            className="h-8 w-56"
+          />
+          <Button variant={method === null ? 'secondary' : 'ghost'} size="sm" onClick={() => setMethod(null)}>
+            Todos
+          </Button>
+          {METHODS.map((item) => (
+            <Button
+              key={item}
+              variant={method === item ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setMethod(item)}
+            >
+              {item}
+            </Button>
+          ))}
+          <span className="mx-1 h-5 border-l border-gray-200" />
+          {ENTRY_FILTERS.map((item) => (
+            <Button
+              key={item.value}
+              variant={filter === item.value ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setFilter(item.value)}
+            >
+              {item.label}
+            </Button>
+          ))}
+          <span className="mx-1 h-5 border-l border-gray-200" />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => {
+              networkLog.clear();
+              setSelectedId(null);
+            }}
+            title="Limpiar"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="sm" onClick={() => setIsOpen(false)} title="Cerrar">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex min-h-0 flex-1">
+        {/* Requests */}
+        <div className="flex-1 overflow-auto">
+          <table className="w-full">
+            <thead className="sticky top-0 bg-gray-50 text-left text-xs text-gray-500">
+              <tr>
+                <th className="px-3 py-1.5 font-medium">Hora</th>
+                <th className="px-3 py-1.5 font-medium">Método</th>
+                <th className="px-3 py-1.5 font-medium">URL</th>
+                <th className="px-3 py-1.5 font-medium">Estado</th>
+                <th className="px-3 py-1.5 text-right font-medium">Tiempo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleEntries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="py-8 text-center text-gray-500">
+                    No hay peticiones registradas
+                  </td>
+                </tr>
+              ) : (
+                visibleEntries.map((entry) => (
+                  <tr
+                    key={entry.id}
+                    onClick={() => setSelectedId(entry.id)}
+                    className={`cursor-pointer border-b border-gray-100 hover:bg-gray-50 ${
+                      entry.id === selectedId ? 'bg-blue-50' : ''
+                    }`}
+                  >
+                    <td className="whitespace-nowrap px-3 py-1.5 text-gray-500">{formatTime(entry)}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs">{entry.method}</td>
+                    <td className="px-3 py-1.5 font-mono text-xs break-all">
+                      {entry.url}
+                      {entry.attempt > 0 && <span className="ml-2 text-gray-500">(reintento {entry.attempt})</span>}
+                      {entry.duplicateOf !== undefined && (
+                        <Badge variant="warning" className="ml-2" title={`Igual a la petición #${entry.duplicateOf}`}>
+                          Duplicada
+                        </Badge>
+                      )}
+                    </td>
+                    <td className="px-3 py-1.5">
+                      <Badge variant={getStatusVariant(entry)}>{getStatusLabel(entry)}</Badge>
+                    </td>
+                    <td className="whitespace-nowrap px-3 py-1.5 text-right text-gray-500">
+                      {entry.durationMs === undefined ? '-' : `${Math.round(entry.durationMs)} ms`}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Details of the selected request */}
+        {selected && (
+          <div className="w-2/5 overflow-auto border-l border-gray-200 p-3 space-y-3">
+            <div className="flex items-start justify-between gap-2">
+              <p className="font-mono text-xs break-all">
+                #{selected.id} {selected.method} {selected.url}
+              </p>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedId(null)} title="Cerrar detalle">
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            {selected.message && <p className="text-gray-700">{selected.message}</p>}
+            {selected.requestBody !== undefined && (
+              <div>
+                <p className="mb-1 text-xs font-medium text-gray-500">Cuerpo de la petición</p>
+                <pre className="rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap break-all">
+                  {formatJson(selected.requestBody)}
+                </pre>
+              </div>
+            )}
+            <div>
+              <p className="mb-1 text-xs font-medium text-gray-500">Respuesta</p>
+              <pre className="rounded bg-gray-50 p-2 text-xs whitespace-pre-wrap break-all">
+                {selected.state === 'pending' ? 'Esperando respuesta...' : formatJson(selected.response)}
+              </pre>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,17 @@
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../contexts';
+import { LOGIN_PATH } from '../../constants';
+import type { Permission } from '../../constants';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   roles?: string[];
+  permissions?: Permission[];
 }
 
-export default function ProtectedRoute({ children, roles }: ProtectedRouteProps) {
-  const { isAuthenticated, isLoading, hasRole } = useAuth();
+export default function ProtectedRoute({ children, roles, permissions }: ProtectedRouteProps) {
+  const { isAuthenticated, isLoading, hasRole, hasPermission } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -21,11 +25,15 @@ export default function ProtectedRoute({ children, roles }: ProtectedRouteProps)
   }
 
   if (!isAuthenticated) {
-    return <Navigate to="/login" replace />;
+    // Remember the requested page so Login can send the user back to it
+    return <Navigate to={LOGIN_PATH} replace state={{ from: `${location.pathname}${location.search}` }} />;
   }
 
-  // Check role-based access
-  if (roles && roles.length > 0 && !hasRole(roles)) {
+  // Check role- and permission-based access
+  const deniedByRole = roles && roles.length > 0 && !hasRole(roles);
+  const deniedByPermission = permissions && permissions.length > 0 && !hasPermission(permissions);
+
+  if (deniedByRole || deniedByPermission) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
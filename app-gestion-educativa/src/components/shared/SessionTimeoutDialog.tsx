@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../ui/dialog';
+import { Button } from '../ui/button';
+
+interface SessionTimeoutDialogProps {
+  seconds: number;
+  onStaySignedIn: () => void;
+  onLogout: () => void;
+}
+
+// Mounted only while the warning is visible, so the countdown restarts on every open
+export default function SessionTimeoutDialog({ seconds, onStaySignedIn, onLogout }: SessionTimeoutDialogProps) {
+  const [secondsLeft, setSecondsLeft] = useState(seconds);
+
+  useEffect(() => {
+    const interval = window.setInterval(() => {
+      setSecondsLeft((prev) => Math.max(prev - 1, 0));
+    }, 1000);
+
+    return () => window.clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (secondsLeft === 0) {
+      onLogout();
+    }
+  }, [secondsLeft, onLogout]);
+
+  const minutes = Math.floor(secondsLeft / 60);
+  const remainder = (secondsLeft % 60).toString().padStart(2, '0');
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onStaySignedIn()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Clock className="w-5 h-5 text-cesde-primary" />
+            Tu sesión está por expirar
+          </DialogTitle>
+          <DialogDescription>
+            No hemos detectado actividad recientemente. Por seguridad, tu sesión se cerrará en:
+          </DialogDescription>
+        </DialogHeader>
+        <div className="px-5 py-4 text-center">
+          <p className="text-4xl font-bold font-mono text-cesde-primary">
+            {minutes}:{remainder}
+          </p>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onLogout}>
+            Cerrar sesión
+          </Button>
+          <Button style={{ backgroundColor: '#E6007E' }} onClick={onStaySignedIn}>
+            Seguir conectado
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
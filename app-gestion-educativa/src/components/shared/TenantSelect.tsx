@@ -0,0 +1,37 @@
+import { Building2 } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger } from '../ui/select';
+import { useTenant } from '../../hooks/useTenant';
+import { tenants } from '../../utils/tenant';
+
+interface TenantSelectProps {
+  onSelect: (tenantId: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+/**
+ * Campus (sede) picker. Renders nothing when only one campus is configured.
+ */
+export default function TenantSelect({ onSelect, disabled, className }: TenantSelectProps) {
+  const tenant = useTenant();
+
+  if (!tenants.isSelectable()) return null;
+
+  return (
+    <Select value={tenant.id} onValueChange={onSelect}>
+      <SelectTrigger disabled={disabled} className={className}>
+        <span className="flex items-center gap-2 truncate">
+          <Building2 className="h-4 w-4 shrink-0 text-gray-500" />
+          {tenant.name}
+        </span>
+      </SelectTrigger>
+      <SelectContent>
+        {tenants.list().map((item) => (
+          <SelectItem key={item.id} value={item.id}>
+            {item.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,8 +1,45 @@
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:8080/api';
 
+// Campuses (sedes) to choose from at login, as a JSON array of
+// { id, name, apiBaseUrl }. Without it the app only talks to API_BASE_URL
+export const TENANTS_CONFIG: string | undefined = import.meta.env.VITE_TENANTS;
+export const TENANT_HEADER = 'X-Tenant-ID';
+export const TENANT_KEY = 'tenant';
+
+// In-browser mock backend (src/mocks) used instead of API_BASE_URL when enabled
+export const USE_MOCK_API = import.meta.env.VITE_USE_MOCK_API === 'true';
+export const MOCK_API_SEED = Number(import.meta.env.VITE_MOCK_API_SEED) || 1;
+
+// What happens when a response does not match its schema in src/schemas/api.ts:
+// 'warn' logs the drift once per endpoint and field, 'strict' also rejects the request
+export const API_CONTRACT_MODE: 'off' | 'warn' | 'strict' =
+  import.meta.env.VITE_API_CONTRACT_MODE === 'strict' || import.meta.env.VITE_API_CONTRACT_MODE === 'off'
+    ? import.meta.env.VITE_API_CONTRACT_MODE
+    : 'warn';
+
+// Floating panel listing every request of the shared axios instance (development aid)
+export const NETWORK_INSPECTOR_ENABLED = import.meta.env.VITE_NETWORK_INSPECTOR === 'true';
+
+export const HOME_PATH = '/dashboard';
+export const LOGIN_PATH = '/login';
+
 export const AUTH_TOKEN_KEY = 'auth_token';
 export const AUTH_USER_KEY = 'auth_user';
 export const TOKEN_EXPIRATION_KEY = 'token_expiration';
+export const IMPERSONATOR_SESSION_KEY = 'impersonator_session';
+export const TOKEN_STORAGE_KIND_KEY = 'token_storage_kind';
+export const SESSION_SYNC_CHANNEL = 'cesde_auth_session';
+
+// Session renewal and inactivity timing
+export const SESSION_REFRESH_MARGIN_MS = 2 * 60 * 1000; // Renew token 2 minutes before expiry
+export const SESSION_IDLE_TIMEOUT_MS = 15 * 60 * 1000; // Log out after 15 minutes of inactivity
+export const SESSION_WARNING_SECONDS = 60; // Countdown shown before the idle logout
+
+// Retries of failed idempotent requests: exponential backoff with full jitter
+export const REQUEST_MAX_RETRIES = 3;
+export const REQUEST_RETRY_BASE_DELAY_MS = 500; // Upper bound of the first wait, doubled per attempt
+export const REQUEST_RETRY_MAX_DELAY_MS = 8000;
+export const REQUEST_OFFLINE_WAIT_MS = 30_000; // Longest a retry waits for the connection to return
 
 export const CESDE_COLORS = {
   primary: '#E6007E',
@@ -20,6 +57,83 @@ export const ROLES = {
   USUARIO: 'Usuario',
 } as const;
 
+export const PERMISSIONS = {
+  DASHBOARD_VIEW: 'dashboard:view',
+  STUDENTS_READ: 'students:read',
+  STUDENTS_WRITE: 'students:write',
+  TEACHERS_MANAGE: 'teachers:manage',
+  COURSES_READ: 'courses:read',
+  COURSES_WRITE: 'courses:write',
+  LEVELS_MANAGE: 'levels:manage',
+  SUBJECTS_MANAGE: 'subjects:manage',
+  ASSIGNMENTS_MANAGE: 'assignments:manage',
+  PERIODS_MANAGE: 'periods:manage',
+  ENROLLMENTS_MANAGE: 'enrollments:manage',
+  GRADES_READ: 'grades:read',
+  GRADES_WRITE: 'grades:write',
+  GRADES_READ_OWN: 'grades:read:own',
+  ATTENDANCE_READ: 'attendance:read',
+  ATTENDANCE_WRITE: 'attendance:write',
+  ATTENDANCE_READ_OWN: 'attendance:read:own',
+  USERS_MANAGE: 'users:manage',
+  USERS_IMPERSONATE: 'users:impersonate',
+  ROLES_MANAGE: 'roles:manage',
+} as const;
+
+export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  [PERMISSIONS.DASHBOARD_VIEW]: 'Ver dashboard',
+  [PERMISSIONS.STUDENTS_READ]: 'Consultar estudiantes',
+  [PERMISSIONS.STUDENTS_WRITE]: 'Gestionar estudiantes',
+  [PERMISSIONS.TEACHERS_MANAGE]: 'Gestionar profesores',
+  [PERMISSIONS.COURSES_READ]: 'Consultar cursos',
+  [PERMISSIONS.COURSES_WRITE]: 'Gestionar cursos',
+  [PERMISSIONS.LEVELS_MANAGE]: 'Gestionar niveles',
+  [PERMISSIONS.SUBJECTS_MANAGE]: 'Gestionar materias',
+  [PERMISSIONS.ASSIGNMENTS_MANAGE]: 'Gestionar asignaciones',
+  [PERMISSIONS.PERIODS_MANAGE]: 'Gestionar períodos',
+  [PERMISSIONS.ENROLLMENTS_MANAGE]: 'Gestionar inscripciones',
+  [PERMISSIONS.GRADES_READ]: 'Consultar calificaciones',
+  [PERMISSIONS.GRADES_WRITE]: 'Registrar calificaciones',
+  [PERMISSIONS.GRADES_READ_OWN]: 'Consultar mis notas',
+  [PERMISSIONS.ATTENDANCE_READ]: 'Consultar asistencia',
+  [PERMISSIONS.ATTENDANCE_WRITE]: 'Registrar asistencia',
+  [PERMISSIONS.ATTENDANCE_READ_OWN]: 'Consultar mi asistencia',
+  [PERMISSIONS.USERS_MANAGE]: 'Gestionar usuarios',
+  [PERMISSIONS.USERS_IMPERSONATE]: 'Ver el sistema como otro usuario',
+  [PERMISSIONS.ROLES_MANAGE]: 'Gestionar roles',
+};
+
+// Default permissions of the built-in roles. Custom roles carry their own
+// permission list, which the backend returns with the login response.
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
+  [ROLES.ADMIN]: Object.values(PERMISSIONS),
+  // Professors keep managing students and courses, as before permissions existed
+  [ROLES.PROFESOR]: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.STUDENTS_READ,
+    PERMISSIONS.STUDENTS_WRITE,
+    PERMISSIONS.COURSES_READ,
+    PERMISSIONS.COURSES_WRITE,
+    PERMISSIONS.GRADES_READ,
+    PERMISSIONS.GRADES_WRITE,
+    PERMISSIONS.ATTENDANCE_READ,
+    PERMISSIONS.ATTENDANCE_WRITE,
+  ],
+  // Students only see their own records, never the group-wide staff views
+  [ROLES.ESTUDIANTE]: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.GRADES_READ_OWN,
+    PERMISSIONS.ATTENDANCE_READ_OWN,
+  ],
+  [ROLES.USUARIO]: [
+    PERMISSIONS.DASHBOARD_VIEW,
+    PERMISSIONS.GRADES_READ,
+    PERMISSIONS.ATTENDANCE_READ,
+  ],
+};
+
 export const STUDENT_STATUS = {
   ACTIVO: 'ACTIVO',
   EGRESADO: 'EGRESADO',
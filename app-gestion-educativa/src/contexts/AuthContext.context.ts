@@ -1,18 +1,38 @@
 import { createContext } from 'react';
 import type { AuthUser, LoginRequest, RegisterRequest } from '../types';
+import type { Permission } from '../constants';
+
+// Password accepted, waiting for the second factor
+export interface PendingTwoFactor {
+  challengeToken: string;
+  rememberMe: boolean;
+}
+
+export type LoginOutcome = 'authenticated' | 'twoFactorRequired';
 
 export interface AuthState {
   user: AuthUser | null;
+  // Administrator behind the current session while viewing the app as another user
+  impersonator: AuthUser | null;
+  // Set between a login that requires 2FA and its verification
+  pendingTwoFactor: PendingTwoFactor | null;
   isAuthenticated: boolean;
   isLoading: boolean;
   error: string | null;
 }
 
 export interface AuthContextType extends AuthState {
-  login: (credentials: LoginRequest) => Promise<void>;
+  login: (credentials: LoginRequest, rememberMe?: boolean) => Promise<LoginOutcome>;
+  verifyTwoFactor: (code: string, recoveryCode?: boolean) => Promise<void>;
+  cancelTwoFactor: () => void;
   register: (data: RegisterRequest) => Promise<void>;
   logout: () => void;
+  impersonate: (userId: number) => Promise<void>;
+  stopImpersonation: () => void;
+  // Returns whether the user already had a session on that campus
+  switchTenant: (tenantId: string) => boolean;
   hasRole: (role: string | string[]) => boolean;
+  hasPermission: (permission: Permission | Permission[]) => boolean;
   isAdmin: () => boolean;
   isProfessor: () => boolean;
   isStudent: () => boolean;
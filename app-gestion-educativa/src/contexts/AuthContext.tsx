@@ -1,15 +1,32 @@
-import { useReducer, useEffect } from 'react';
+import { useReducer, useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import type { ReactNode } from 'react';
-import { authService } from '../services/authService';
-import type { AuthUser, LoginRequest, RegisterRequest } from '../types';
-import { ROLES } from '../constants';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'sonner';
+import { authService, isTwoFactorChallenge } from '../services/authService';
+import { getApiErrorMessage } from '../api/errors';
+import { sessionSync } from '../utils/sessionSync';
+import type { AuthUser, LoginRequest, LoginResponse, RegisterRequest } from '../types';
+import { resolvePermissions } from '../utils/permissions';
+import {
+  ROLES,
+  SESSION_REFRESH_MARGIN_MS,
+  SESSION_IDLE_TIMEOUT_MS,
+  SESSION_WARNING_SECONDS,
+} from '../constants';
+import type { Permission } from '../constants';
+import SessionTimeoutDialog from '../components/shared/SessionTimeoutDialog';
 import { AuthContext } from './AuthContext.context';
-import type { AuthState, AuthContextType } from './AuthContext.context';
+import type { AuthState, AuthContextType, LoginOutcome, PendingTwoFactor } from './AuthContext.context';
 
 type AuthAction =
   | { type: 'AUTH_START' }
   | { type: 'AUTH_SUCCESS'; payload: AuthUser }
   | { type: 'AUTH_FAILURE'; payload: string }
+  | { type: 'TWO_FACTOR_REQUIRED'; payload: PendingTwoFactor }
+  | { type: 'TWO_FACTOR_FAILURE'; payload: string }
+  | { type: 'IMPERSONATION_START'; payload: { user: AuthUser; impersonator: AuthUser } }
+  | { type: 'IMPERSONATION_END'; payload: AuthUser }
+  | { type: 'SET_IMPERSONATOR'; payload: AuthUser | null }
   | { type: 'LOGOUT' }
   | { type: 'CLEAR_ERROR' };
 
@@ -25,14 +42,50 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
       return {
         ...state,
         user: action.payload,
+        pendingTwoFactor: null,
         isAuthenticated: true,
         isLoading: false,
         error: null,
       };
+    case 'TWO_FACTOR_REQUIRED':
+      return {
+        ...state,
+        pendingTwoFactor: action.payload,
+        isLoading: false,
+        error: null,
+      };
+    case 'TWO_FACTOR_FAILURE':
+      // A wrong code keeps the challenge so the user can try again
+      return {
+        ...state,
+        isLoading: false,
+        error: action.payload,
+      };
+    case 'IMPERSONATION_START':
+      return {
+        ...state,
+        user: action.payload.user,
+        impersonator: action.payload.impersonator,
+        isAuthenticated: true,
+      };
+    case 'IMPERSONATION_END':
+      return {
+        ...state,
+        user: action.payload,
+        impersonator: null,
+        isAuthenticated: true,
+      };
+    case 'SET_IMPERSONATOR':
+      return {
+        ...state,
+        impersonator: action.payload,
+      };
     case 'AUTH_FAILURE':
       return {
         ...state,
         user: null,
+        impersonator: null,
+        pendingTwoFactor: null,
         isAuthenticated: false,
         isLoading: false,
         error: action.payload,
@@ -41,6 +94,8 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
       return {
         ...state,
         user: null,
+        impersonator: null,
+        pendingTwoFactor: null,
         isAuthenticated: false,
         isLoading: false,
         error: null,
@@ -55,79 +110,257 @@ const authReducer = (state: AuthState, action: AuthAction): AuthState => {
   }
 };
 
+// DOM events that count as user activity for the idle timeout
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
 const initialState: AuthState = {
   user: null,
+  impersonator: null,
+  pendingTwoFactor: null,
   isAuthenticated: false,
   isLoading: true,
   error: null,
 };
 
+const toAuthUser = (response: LoginResponse): AuthUser => ({
+  userId: response.userId,
+  username: response.username,
+  email: response.email,
+  roles: response.roles,
+  permissions: response.permissions,
+});
+
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [state, dispatch] = useReducer(authReducer, initialState);
+  const [showSessionWarning, setShowSessionWarning] = useState(false);
+  const lastActivityRef = useRef(0);
+  const navigate = useNavigate();
+
+  // Pick up the stored session of the selected campus, if still valid
+  const restoreSession = useCallback((): boolean => {
+    if (authService.isAuthenticated()) {
+      const user = authService.getStoredUser();
+      if (user) {
+        dispatch({ type: 'AUTH_SUCCESS', payload: user });
+        dispatch({ type: 'SET_IMPERSONATOR', payload: authService.getImpersonator()?.user ?? null });
+        return true;
+      }
+    }
+    dispatch({ type: 'LOGOUT' });
+    return false;
+  }, []);
 
   // Check if user is already authenticated on mount
   useEffect(() => {
-    const checkAuth = () => {
-      if (authService.isAuthenticated()) {
-        const user = authService.getStoredUser();
-        if (user) {
-          dispatch({ type: 'AUTH_SUCCESS', payload: user });
-          return;
-        }
+    restoreSession();
+  }, [restoreSession]);
+
+  // Follow login, logout and token refresh performed in other tabs
+  useEffect(() => {
+    return sessionSync.subscribe((message) => {
+      if (message.type === 'logout') {
+        setShowSessionWarning(false);
+        dispatch({ type: 'LOGOUT' });
+        navigate('/login', { replace: true });
+        return;
       }
-      dispatch({ type: 'LOGOUT' });
-    };
 
-    checkAuth();
-  }, []);
+      const storedUser = authService.getStoredUser();
+      if (!storedUser) return;
+
+      // Another user took over the shared session - start this tab from scratch
+      if (state.user && state.user.userId !== message.userId) {
+        window.location.reload();
+        return;
+      }
+
+      dispatch({ type: 'AUTH_SUCCESS', payload: storedUser });
+      if (message.type === 'login' && !state.user) {
+        navigate('/dashboard', { replace: true });
+      }
+    });
+  }, [state.user, navigate]);
 
-  const login = async (credentials: LoginRequest) => {
+  const login = async (credentials: LoginRequest, rememberMe = true): Promise<LoginOutcome> => {
     try {
       dispatch({ type: 'AUTH_START' });
-      const response = await authService.login(credentials);
+      const response = await authService.login(credentials, rememberMe);
       
-      const user: AuthUser = {
-        userId: response.userId,
-        username: response.username,
-        email: response.email,
-        roles: response.roles,
-      };
+      if (isTwoFactorChallenge(response)) {
+        dispatch({
+          type: 'TWO_FACTOR_REQUIRED',
+          payload: { challengeToken: response.challengeToken, rememberMe },
+        });
+        return 'twoFactorRequired';
+      }
       
-      dispatch({ type: 'AUTH_SUCCESS', payload: user });
+      dispatch({ type: 'AUTH_SUCCESS', payload: toAuthUser(response) });
+      return 'authenticated';
     } catch (error: unknown) {
-      const err = error as { response?: { data?: { message?: string } }; message?: string };
-      const message = err.response?.data?.message || err.message || 'Error en el inicio de sesión';
+      const message = getApiErrorMessage(error, 'Error en el inicio de sesión');
       dispatch({ type: 'AUTH_FAILURE', payload: message });
       throw error;
     }
   };
 
+  const verifyTwoFactor = async (code: string, recoveryCode = false) => {
+    const pending = state.pendingTwoFactor;
+    if (!pending) {
+      throw new Error('No two-factor verification in progress');
+    }
+
+    try {
+      dispatch({ type: 'AUTH_START' });
+      const response = await authService.verifyTwoFactor(
+        { challengeToken: pending.challengeToken, code, recoveryCode },
+        pending.rememberMe
+      );
+      dispatch({ type: 'AUTH_SUCCESS', payload: toAuthUser(response) });
+    } catch (error: unknown) {
+      const message = getApiErrorMessage(error, 'Código de verificación inválido');
+      dispatch({ type: 'TWO_FACTOR_FAILURE', payload: message });
+      throw error;
+    }
+  };
+
+  const cancelTwoFactor = () => {
+    dispatch({ type: 'LOGOUT' });
+  };
+
   const register = async (data: RegisterRequest) => {
     try {
       dispatch({ type: 'AUTH_START' });
       const response = await authService.register(data);
       
-      const user: AuthUser = {
-        userId: response.userId,
-        username: response.username,
-        email: response.email,
-        roles: response.roles,
-      };
-      
-      dispatch({ type: 'AUTH_SUCCESS', payload: user });
+      dispatch({ type: 'AUTH_SUCCESS', payload: toAuthUser(response) });
     } catch (error: unknown) {
-      const err = error as { response?: { data?: { message?: string } }; message?: string };
-      const message = err.response?.data?.message || err.message || 'Error en el registro';
+      const message = getApiErrorMessage(error, 'Error en el registro');
       dispatch({ type: 'AUTH_FAILURE', payload: message });
       throw error;
     }
   };
 
-  const logout = () => {
+  const logout = useCallback(() => {
     authService.logout();
+    setShowSessionWarning(false);
     dispatch({ type: 'LOGOUT' });
+  }, []);
+
+  const impersonate = async (userId: number) => {
+    const response = await authService.impersonate(userId);
+    const impersonator = authService.getImpersonator();
+
+    dispatch({
+      type: 'IMPERSONATION_START',
+      payload: { user: toAuthUser(response), impersonator: impersonator!.user },
+    });
   };
 
+  const stopImpersonation = () => {
+    try {
+      const user = authService.stopImpersonation();
+      dispatch({ type: 'IMPERSONATION_END', payload: user });
+    } catch (error) {
+      // The saved administrator session is gone or expired - fall back to a full logout
+      dispatch({ type: 'LOGOUT' });
+      throw error;
+    }
+  };
+
+  const switchTenant = useCallback((tenantId: string) => {
+    authService.switchTenant(tenantId);
+    setShowSessionWarning(false);
+    return restoreSession();
+  }, [restoreSession]);
+
+  const refreshSession = useCallback(async () => {
+    const response = await authService.refreshToken();
+    dispatch({ type: 'AUTH_SUCCESS', payload: toAuthUser(response) });
+  }, []);
+
+  // Silently renew the token shortly before it expires
+  useEffect(() => {
+    if (!state.isAuthenticated || showSessionWarning) return;
+
+    let timer: number | undefined;
+
+    const schedule = () => {
+      const expiration = authService.getTokenExpiration();
+      if (!expiration) return;
+
+      const delay = Math.max(expiration - Date.now() - SESSION_REFRESH_MARGIN_MS, 0);
+      timer = window.setTimeout(renew, delay);
+    };
+
+    const renew = async () => {
+      // The token may have been renewed meanwhile (e.g. by the axios interceptor)
+      const expiration = authService.getTokenExpiration() ?? 0;
+      if (expiration - Date.now() > SESSION_REFRESH_MARGIN_MS) {
+        schedule();
+        return;
+      }
+
+      try {
+        await refreshSession();
+        schedule();
+      } catch (error) {
+        console.error('Error renewing session:', error);
+        logout();
+        toast.error('Tu sesión ha expirado', {
+          description: 'Inicia sesión nuevamente para continuar',
+        });
+      }
+    };
+
+    schedule();
+
+    return () => window.clearTimeout(timer);
+  }, [state.isAuthenticated, showSessionWarning, refreshSession, logout]);
+
+  // Track user activity and warn before the idle timeout logs the user out
+  useEffect(() => {
+    if (!state.isAuthenticated || showSessionWarning) return;
+
+    lastActivityRef.current = Date.now();
+
+    const markActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+
+    ACTIVITY_EVENTS.forEach((event) =>
+      window.addEventListener(event, markActivity, { passive: true })
+    );
+
+    const warningThreshold = SESSION_IDLE_TIMEOUT_MS - SESSION_WARNING_SECONDS * 1000;
+    const interval = window.setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= warningThreshold) {
+        setShowSessionWarning(true);
+      }
+    }, 5000);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, markActivity));
+      window.clearInterval(interval);
+    };
+  }, [state.isAuthenticated, showSessionWarning]);
+
+  const handleStaySignedIn = useCallback(async () => {
+    setShowSessionWarning(false);
+    try {
+      await refreshSession();
+    } catch (error) {
+      console.error('Error renewing session:', error);
+      logout();
+    }
+  }, [refreshSession, logout]);
+
+  const handleIdleLogout = useCallback(() => {
+    logout();
+    toast.info('Sesión cerrada por inactividad', {
+      description: 'Inicia sesión nuevamente para continuar',
+    });
+  }, [logout]);
+
   const hasRole = (role: string | string[]): boolean => {
     if (!state.user?.roles) return false;
     
@@ -138,6 +371,16 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     return state.user.roles.includes(role);
   };
 
+  const permissions = useMemo(() => resolvePermissions(state.user), [state.user]);
+
+  const hasPermission = (permission: Permission | Permission[]): boolean => {
+    if (Array.isArray(permission)) {
+      return permission.some(p => permissions.has(p));
+    }
+
+    return permissions.has(permission);
+  };
+
   const isAdmin = (): boolean => {
     return hasRole(ROLES.ADMIN);
   };
@@ -157,14 +400,31 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const value: AuthContextType = {
     ...state,
     login,
+    verifyTwoFactor,
+    cancelTwoFactor,
     register,
     logout,
+    impersonate,
+    stopImpersonation,
+    switchTenant,
     hasRole,
+    hasPermission,
     isAdmin,
     isProfessor,
     isStudent,
     clearError,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      {state.isAuthenticated && showSessionWarning && (
+        <SessionTimeoutDialog
+          seconds={SESSION_WARNING_SECONDS}
+          onStaySignedIn={handleStaySignedIn}
+          onLogout={handleIdleLogout}
+        />
+      )}
+    </AuthContext.Provider>
+  );
 };
@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from 'react';
+import { attendanceOutbox } from '../services/attendanceOutbox';
+
+/**
+ * Attendance sheets saved offline that are waiting to be synced, and whether a
+ * sync is running.
+ */
+export const useAttendanceOutbox = () =>
+  useSyncExternalStore(attendanceOutbox.subscribe, attendanceOutbox.getSnapshot);
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { connectivity } from '../utils/connectivity';
+
+/**
+ * Current online/offline state and the number of requests waiting to be retried.
+ */
+export const useConnectivity = () => useSyncExternalStore(connectivity.subscribe, connectivity.getSnapshot);
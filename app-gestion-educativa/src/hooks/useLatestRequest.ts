@@ -0,0 +1,33 @@
+import { useEffect, useMemo, useRef } from 'react';
+
+/**
+ * Keeps only the latest run of a loader alive. `start()` aborts the previous
+ * run and returns the signal for the new one; `cancel()` aborts without
+ * starting a new run. `isLatest(signal)` tells whether no newer run has
+ * started since, i.e. whether the run still owns shared state such as a
+ * loading flag, even after `cancel()`. Whatever is still pending is aborted
+ * on unmount.
+ */
+export const useLatestRequest = () => {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return useMemo(
+    () => ({
+      start: (): AbortSignal => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return controller.signal;
+      },
+      cancel: () => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+      },
+      isLatest: (signal: AbortSignal): boolean =>
+        !controllerRef.current || controllerRef.current.signal === signal,
+    }),
+    []
+  );
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { networkLog } from '../utils/networkLog';
+
+/**
+ * Requests recorded for the network inspector, newest first.
+ */
+export const useNetworkLog = () => useSyncExternalStore(networkLog.subscribe, networkLog.getSnapshot);
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts';
+import { userService } from '../services/userService';
+import { subjectAssignmentService } from '../services/academicService';
+import type { CourseGroup, SubjectAssignment } from '../types';
+
+interface ProfessorAssignmentsState {
+  assignments: SubjectAssignment[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Whether an assignment covers a group. Assignments without a group apply to
+ * every group of the same level and academic period.
+ */
+export const isAssignmentForGroup = (assignment: SubjectAssignment, group: CourseGroup) => {
+  if (!assignment.isActive) return false;
+  if (assignment.groupId !== null && assignment.groupId !== undefined) {
+    return assignment.groupId === group.id;
+  }
+  return assignment.levelId === group.levelId && assignment.academicPeriodId === group.academicPeriodId;
+};
+
+/**
+ * Loads the subject assignments of the professor linked to the logged-in user.
+ * `isScoped` is false for administrators, who keep the unrestricted view.
+ */
+export const useProfessorAssignments = () => {
+  const { user, isAdmin, isProfessor } = useAuth();
+  const userId = user?.userId;
+  const isScoped = isProfessor() && !isAdmin();
+
+  const [state, setState] = useState<ProfessorAssignmentsState>({
+    assignments: [],
+    isLoading: isScoped,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!isScoped || !userId) return;
+
+    // Aborted when the user changes or the component unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const load = async () => {
+      try {
+        const account = await userService.getById(userId, { signal });
+        const professorId = account?.professorId;
+
+        if (!professorId) {
+          if (!signal.aborted) {
+            setState({
+              assignments: [],
+              isLoading: false,
+              error: 'Tu usuario no está vinculado a un profesor',
+            });
+          }
+          return;
+        }
+
+        const assignments = await subjectAssignmentService.getByProfessor(professorId, { signal });
+        if (!signal.aborted) {
+          setState({ assignments, isLoading: false, error: null });
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error('Error loading professor assignments:', error);
+        setState({
+          assignments: [],
+          isLoading: false,
+          error: 'Error al cargar tus asignaciones',
+        });
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [isScoped, userId]);
+
+  return { isScoped, ...state };
+};
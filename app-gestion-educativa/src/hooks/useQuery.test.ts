@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import api from '../api/axios';
+import { createResourceService } from '../services/resource';
+import { studentService } from '../services/api';
+import { clearQueryCache } from '../services/queryCache';
+import { useQuery } from './useQuery';
+
+vi.mock('../api/axios', () => ({ default: { get: vi.fn() } }));
+
+interface Thing {
+  id: number;
+  name: string;
+}
+
+const STALE_TIME = 1000;
+const thingService = createResourceService<Thing, never>('/things')();
+
+// Next answer of GET /things
+const serverReturns = (name: string) => {
+  vi.mocked(api.get).mockResolvedValue({ data: { success: true, data: [{ id: 1, name }] } });
+};
+
+// Mounts a page reading the list, as Grades and Attendance do
+const mountList = () => renderHook(() => useQuery('/things', thingService.fetchAll, { staleTime: STALE_TIME }));
+
+// Student list as GET /students answers it
+const serverReturnsStudent = (firstName: string) => {
+  vi.mocked(api.get).mockResolvedValue({
+    data: {
+      success: true,
+      data: [
+        {
+          id: 1,
+          identificationType: 'CC',
+          identificationNumber: '1001',
+          firstName,
+          lastName: 'Gómez',
+          email: 'ana@cesde.edu.co',
+          dateOfBirth: '2005-01-01',
+          enrollmentDate: '2024-01-15',
+          isActive: true,
+        },
+      ],
+    },
+  });
+};
+
+describe('useQuery', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    clearQueryCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.mocked(api.get).mockReset();
+  });
+
+  it('replaces stale data with what the server returns after staleTime', async () => {
+    serverReturns('v1');
+    const first = mountList();
+    await waitFor(() => expect(first.result.current.data?.[0].name).toBe('v1'));
+    first.unmount();
+
+    for (const version of ['v2', 'v3']) {
+      serverReturns(version);
+      vi.advanceTimersByTime(STALE_TIME + 1);
+
+      const page = mountList();
+      await waitFor(() => expect(page.result.current.data?.[0].name).toBe(version));
+      expect(page.result.current.isFetching).toBe(false);
+      page.unmount();
+    }
+
+    expect(api.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('serves fresh data from the cache without a request', async () => {
+    serverReturns('v1');
+    const first = mountList();
+    await waitFor(() => expect(first.result.current.data?.[0].name).toBe('v1'));
+    first.unmount();
+
+    serverReturns('v2');
+    const second = mountList();
+    expect(second.result.current.data?.[0].name).toBe('v1');
+    expect(api.get).toHaveBeenCalledTimes(1);
+    second.unmount();
+  });
+
+  it('revalidates the student list shared by Enrollments, Grades and Attendance', async () => {
+    const mountStudents = () =>
+      renderHook(() => useQuery('/students', studentService.fetchAll, { staleTime: STALE_TIME }));
+
+    serverReturnsStudent('Ana');
+    const enrollments = mountStudents();
+    await waitFor(() => expect(enrollments.result.current.data?.[0].firstName).toBe('Ana'));
+    enrollments.unmount();
+
+    serverReturnsStudent('Ana María');
+    vi.advanceTimersByTime(STALE_TIME + 1);
+
+    const grades = mountStudents();
+    await waitFor(() => expect(grades.result.current.data?.[0].firstName).toBe('Ana María'));
+    expect(api.get).toHaveBeenCalledTimes(2);
+    expect(api.get).toHaveBeenLastCalledWith('/students', undefined);
+    grades.unmount();
+  });
+});
@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  fetchQuery,
+  getQueryEntry,
+  invalidateQueries,
+  subscribeQuery,
+} from '../services/queryCache';
+import type { QueryOptions } from '../services/queryCache';
+
+const noopUnsubscribe = () => {};
+
+/**
+ * Reads `key` through the shared query cache and re-renders when the entry
+ * changes: background revalidation, invalidation after a mutation or a
+ * refetch started by another component. Pass `null` as key to skip the query.
+ * `fetcher` must be a stable reference that does not go through the cache
+ * itself, such as `courseGroupService.fetchAll`: a cached fetcher answers the
+ * revalidation with the stale data it was meant to replace.
+ */
+export const useQuery = <T>(
+  key: string | null,
+  fetcher: () => Promise<T>,
+  { staleTime }: QueryOptions = {}
+) => {
+  const subscribe = useCallback(
+    (onChange: () => void) => (key ? subscribeQuery(key, onChange) : noopUnsubscribe),
+    [key]
+  );
+  const entry = useSyncExternalStore(subscribe, () => (key ? getQueryEntry<T>(key) : undefined));
+
+  useEffect(() => {
+    if (!key) return;
+    // A failed request is retried on invalidation or refetch, not on every render
+    if (entry?.error !== undefined && !entry.isInvalidated) return;
+
+    fetchQuery(key, fetcher, { staleTime }).catch((error) => {
+      console.error(`Error loading ${key}:`, error);
+    });
+  }, [key, entry, fetcher, staleTime]);
+
+  const refetch = useCallback(() => {
+    if (!key) return Promise.resolve(undefined);
+    invalidateQueries(key);
+    return fetchQuery(key, fetcher, { staleTime });
+  }, [key, fetcher, staleTime]);
+
+  return {
+    data: entry?.data,
+    error: entry?.error,
+    isLoading: key !== null && entry?.data === undefined && entry?.error === undefined,
+    isFetching: entry?.promise !== undefined,
+    refetch,
+  };
+};
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '../contexts';
+import { userService } from '../services/userService';
+import {
+  courseEnrollmentService,
+  levelEnrollmentService,
+  subjectEnrollmentService,
+} from '../services/enrollmentService';
+import type { LevelEnrollment, SubjectEnrollment } from '../types';
+
+export interface StudentSubjectEnrollment extends SubjectEnrollment {
+  levelName?: string;
+  groupCode?: string;
+}
+
+interface StudentEnrollmentsState {
+  studentId: number | null;
+  enrollments: StudentSubjectEnrollment[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Resolves the student linked to the logged-in user and loads their subject
+ * enrollments. Every request is keyed by that student's own ids, so the
+ * self-service pages never query group-wide data.
+ */
+export const useStudentEnrollments = () => {
+  const { user } = useAuth();
+  const userId = user?.userId;
+
+  const [state, setState] = useState<StudentEnrollmentsState>({
+    studentId: null,
+    enrollments: [],
+    isLoading: true,
+    error: null,
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    // Aborted when the user changes or the component unmounts
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const load = async () => {
+      try {
+        const account = await userService.getById(userId, { signal });
+        const studentId = account?.studentId;
+
+        if (!studentId) {
+          if (!signal.aborted) {
+            setState({
+              studentId: null,
+              enrollments: [],
+              isLoading: false,
+              error: 'Tu usuario no está vinculado a un estudiante',
+            });
+          }
+          return;
+        }
+
+        const courseEnrolls = await courseEnrollmentService.getByStudent(studentId, { signal });
+        const levelEnrolls: LevelEnrollment[] = (
+          await Promise.all(courseEnrolls.map((ce) => levelEnrollmentService.getByCourseEnrollment(ce.id, { signal })))
+        ).flat();
+
+        const enrollments = (
+          await Promise.all(
+            levelEnrolls.map(async (levelEnroll) => {
+              const subjectEnrolls = await subjectEnrollmentService.getByLevelEnrollment(levelEnroll.id, { signal });
+              return subjectEnrolls.map((se) => ({
+                ...se,
+                levelName: levelEnroll.levelName,
+                groupCode: levelEnroll.groupCode,
+              }));
+            })
+          )
+        ).flat();
+
+        if (!signal.aborted) {
+          setState({ studentId, enrollments, isLoading: false, error: null });
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error('Error loading student enrollments:', error);
+        setState({
+          studentId: null,
+          enrollments: [],
+          isLoading: false,
+          error: 'Error al cargar tus inscripciones',
+        });
+      }
+    };
+
+    load();
+
+    return () => controller.abort();
+  }, [userId]);
+
+  return state;
+};
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { tenants } from '../utils/tenant';
+
+/**
+ * Campus the app is currently talking to.
+ */
+export const useTenant = () => useSyncExternalStore(tenants.subscribe, tenants.current);
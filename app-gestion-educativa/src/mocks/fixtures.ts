@@ -0,0 +1,450 @@
+import { ROLES } from '../constants';
+import type {
+  AcademicPeriod,
+  Attendance,
+  Course,
+  CourseEnrollment,
+  CourseGroup,
+  Grade,
+  GradeComponent,
+  GradePeriod,
+  Level,
+  LevelEnrollment,
+  Professor,
+  Role,
+  Student,
+  Subject,
+  SubjectAssignmentResponse,
+  SubjectEnrollment,
+  User,
+} from '../types';
+import type { ClassSession } from '../services/classSessionService';
+
+// Every account of the mock backend logs in with this password
+export const MOCK_PASSWORD = 'cesde123';
+
+export interface MockUser extends User {
+  password: string;
+}
+
+// One array per backend table, keyed by the endpoint that serves it
+export interface MockDatabase {
+  '/roles': Role[];
+  '/users': MockUser[];
+  '/academic-periods': AcademicPeriod[];
+  '/courses': Course[];
+  '/levels': Level[];
+  '/subjects': Subject[];
+  '/professors': Professor[];
+  '/students': Student[];
+  '/course-groups': CourseGroup[];
+  '/subject-assignments': SubjectAssignmentResponse[];
+  '/course-enrollments': CourseEnrollment[];
+  '/level-enrollments': LevelEnrollment[];
+  '/subject-enrollments': SubjectEnrollment[];
+  '/grade-periods': GradePeriod[];
+  '/grade-components': GradeComponent[];
+  '/grades': Grade[];
+  '/class-sessions': ClassSession[];
+  '/attendance': Attendance[];
+}
+
+export type MockCollection = keyof MockDatabase;
+
+// mulberry32: small deterministic PRNG, the same seed always yields the same data
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    int: (min: number, max: number) => min + Math.floor(next() * (max - min + 1)),
+    pick: <T>(items: readonly T[]): T => items[Math.floor(next() * items.length)],
+  };
+};
+
+const FIRST_NAMES = [
+  'Juan', 'María', 'Carlos', 'Ana', 'Luis', 'Valentina', 'Andrés', 'Camila', 'Santiago', 'Daniela',
+  'Felipe', 'Laura', 'Mateo', 'Sofía', 'Julián', 'Isabella', 'Sebastián', 'Manuela', 'David', 'Paula',
+] as const;
+
+const LAST_NAMES = [
+  'Gómez', 'Rodríguez', 'Martínez', 'López', 'García', 'Restrepo', 'Zapata', 'Cardona', 'Ospina', 'Vélez',
+  'Álvarez', 'Londoño', 'Muñoz', 'Hernández', 'Jaramillo', 'Arango', 'Ramírez', 'Castaño', 'Ríos', 'Mejía',
+] as const;
+
+const COURSES = [
+  {
+    code: 'TDS',
+    name: 'Técnico en Desarrollo de Software',
+    levels: [
+      ['Lógica de Programación', 'Bases de Datos I', 'Inglés Técnico I'],
+      ['Programación Orientada a Objetos', 'Bases de Datos II', 'Desarrollo Web'],
+    ],
+  },
+  {
+    code: 'TDG',
+    name: 'Técnico en Diseño Gráfico',
+    levels: [
+      ['Fundamentos del Diseño', 'Dibujo Técnico', 'Teoría del Color'],
+      ['Diseño Editorial', 'Ilustración Digital', 'Fotografía'],
+    ],
+  },
+] as const;
+
+const STUDENTS_PER_GROUP = 6;
+const SESSIONS_PER_ASSIGNMENT = 4;
+const TIMESTAMP = '2026-01-15T08:00:00';
+
+const toDate = (date: Date) => date.toISOString().split('T')[0];
+
+/**
+ * Builds a consistent data set: courses with levels and subjects, one group
+ * per level, enrolled students with grades and attendance, and a user per role.
+ */
+export const createFixtures = (seed: number): MockDatabase => {
+  const random = createRandom(seed);
+  const person = () => {
+    const firstName = random.pick(FIRST_NAMES);
+    const lastName = `${random.pick(LAST_NAMES)} ${random.pick(LAST_NAMES)}`;
+    return { firstName, lastName, fullName: `${firstName} ${lastName}` };
+  };
+  const emailOf = (firstName: string, lastName: string, id: number) =>
+    `${firstName}.${lastName.split(' ')[0]}${id}`
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase() + '@cesde.edu.co';
+
+  const roles: Role[] = Object.values(ROLES).map((name, index) => ({
+    id: index + 1,
+    name,
+    description: `Rol ${name}`,
+    enabled: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  }));
+  const roleByName = (name: string) => roles.find((role) => role.name === name)!;
+
+  const period: AcademicPeriod = {
+    id: 1,
+    name: '2026-1',
+    startDate: '2026-01-19',
+    endDate: '2026-06-19',
+    year: 2026,
+    isActive: true,
+    createdAt: TIMESTAMP,
+    updatedAt: TIMESTAMP,
+  };
+  const academicPeriods: AcademicPeriod[] = [
+    { id: 2, name: '2025-2', startDate: '2025-07-21', endDate: '2025-12-12', year: 2025, isActive: false },
+    period,
+  ];
+
+  const professors: Professor[] = Array.from({ length: 4 }, (_, index) => {
+    const id = index + 1;
+    const names = person();
+    return {
+      id,
+      identificationType: 'CC',
+      identificationNumber: String(70000000 + random.int(100000, 999999)),
+      ...names,
+      email: emailOf(names.firstName, names.lastName, id),
+      phone: `300${random.int(1000000, 9999999)}`,
+      hireDate: `20${random.int(15, 24)}-0${random.int(1, 9)}-01`,
+      specialization: random.pick(['Ingeniería de Sistemas', 'Diseño Gráfico', 'Licenciatura en Inglés']),
+      isActive: true,
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP,
+    };
+  });
+
+  const courses: Course[] = [];
+  const levels: Level[] = [];
+  const subjects: Subject[] = [];
+  const courseGroups: CourseGroup[] = [];
+  const subjectAssignments: SubjectAssignmentResponse[] = [];
+
+  COURSES.forEach((courseData, courseIndex) => {
+    const course: Course = {
+      id: courseIndex + 1,
+      code: courseData.code,
+      name: courseData.name,
+      description: `Programa ${courseData.name}`,
+      totalLevels: courseData.levels.length,
+      isActive: true,
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP,
+    };
+    courses.push(course);
+
+    courseData.levels.forEach((subjectNames, levelIndex) => {
+      const level: Level = {
+        id: levels.length + 1,
+        courseId: course.id,
+        courseName: course.name,
+        levelNumber: levelIndex + 1,
+        name: `Nivel ${levelIndex + 1}`,
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      levels.push(level);
+
+      const group: CourseGroup = {
+        id: courseGroups.length + 1,
+        courseId: course.id,
+        courseName: course.name,
+        levelId: level.id,
+        levelName: level.name,
+        academicPeriodId: period.id,
+        academicPeriodName: period.name,
+        groupCode: `${course.code}-N${level.levelNumber}-A`,
+        maxStudents: 30,
+        currentStudents: STUDENTS_PER_GROUP,
+        scheduleShift: random.pick(['MAÑANA', 'TARDE', 'NOCHE']),
+        isActive: true,
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      courseGroups.push(group);
+
+      subjectNames.forEach((name, subjectIndex) => {
+        const subject: Subject = {
+          id: subjects.length + 1,
+          levelId: level.id,
+          levelName: level.name,
+          code: `${course.code}${level.levelNumber}${subjectIndex + 1}`,
+          name,
+          hoursPerWeek: random.int(2, 6),
+          isActive: true,
+          createdAt: TIMESTAMP,
+          updatedAt: TIMESTAMP,
+        };
+        subjects.push(subject);
+
+        const professor = professors[subject.id % professors.length];
+        subjectAssignments.push({
+          id: subjectAssignments.length + 1,
+          subjectId: subject.id,
+          subjectName: subject.name,
+          subjectCode: subject.code,
+          levelId: level.id,
+          levelName: level.name,
+          professorId: professor.id,
+          professorFirstName: professor.firstName,
+          professorLastName: professor.lastName,
+          professorFullName: professor.fullName ?? '',
+          professorEmail: professor.email,
+          academicPeriodId: period.id,
+          academicPeriodName: period.name,
+          academicPeriodStartDate: period.startDate,
+          academicPeriodEndDate: period.endDate,
+          groupId: group.id,
+          groupName: group.groupCode,
+          schedule: random.pick(['Lunes 8:00-10:00', 'Martes 14:00-16:00', 'Jueves 18:00-20:00']),
+          classroom: `Aula ${random.int(101, 310)}`,
+          maxStudents: group.maxStudents,
+          isActive: true,
+          createdAt: TIMESTAMP,
+          updatedAt: TIMESTAMP,
+        });
+      });
+    });
+  });
+
+  const students: Student[] = [];
+  const courseEnrollments: CourseEnrollment[] = [];
+  const levelEnrollments: LevelEnrollment[] = [];
+  const subjectEnrollments: SubjectEnrollment[] = [];
+
+  courseGroups.forEach((group) => {
+    const course = courses.find((c) => c.id === group.courseId)!;
+
+    for (let i = 0; i < STUDENTS_PER_GROUP; i++) {
+      const id = students.length + 1;
+      const names = person();
+      const student: Student = {
+        id,
+        identificationType: random.pick(['CC', 'TI']),
+        identificationNumber: String(1000000000 + random.int(1000000, 9999999)),
+        ...names,
+        email: emailOf(names.firstName, names.lastName, id),
+        phone: `31${random.int(10000000, 99999999)}`,
+        dateOfBirth: `${random.int(1995, 2008)}-0${random.int(1, 9)}-1${random.int(0, 9)}`,
+        enrollmentDate: '2026-01-10',
+        isActive: true,
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      students.push(student);
+
+      const courseEnrollment: CourseEnrollment = {
+        id: courseEnrollments.length + 1,
+        studentId: student.id,
+        studentName: student.fullName,
+        courseId: course.id,
+        courseName: course.name,
+        academicPeriodId: period.id,
+        academicPeriodName: period.name,
+        groupId: group.id,
+        enrollmentDate: '2026-01-10',
+        enrollmentStatus: 'ACTIVO',
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      courseEnrollments.push(courseEnrollment);
+
+      const levelEnrollment: LevelEnrollment = {
+        id: levelEnrollments.length + 1,
+        courseEnrollmentId: courseEnrollment.id,
+        levelId: group.levelId,
+        levelName: group.levelName,
+        academicPeriodId: period.id,
+        groupId: group.id,
+        groupCode: group.groupCode,
+        enrollmentDate: '2026-01-10',
+        status: 'EN_CURSO',
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      levelEnrollments.push(levelEnrollment);
+
+      subjects
+        .filter((subject) => subject.levelId === group.levelId)
+        .forEach((subject) => {
+          const assignment = subjectAssignments.find((a) => a.subjectId === subject.id);
+          subjectEnrollments.push({
+            id: subjectEnrollments.length + 1,
+            levelEnrollmentId: levelEnrollment.id,
+            studentName: student.fullName ?? '',
+            subjectId: subject.id,
+            subjectName: subject.name,
+            subjectCode: subject.code,
+            subjectAssignmentId: assignment?.id,
+            professorName: assignment?.professorFullName,
+            schedule: assignment?.schedule ?? undefined,
+            classroom: assignment?.classroom ?? undefined,
+            enrollmentDate: '2026-01-10',
+            status: 'EN_CURSO',
+            createdAt: TIMESTAMP,
+            updatedAt: TIMESTAMP,
+          });
+        });
+    }
+  });
+
+  const gradePeriods: GradePeriod[] = [1, 2, 3].map((periodNumber) => ({
+    id: periodNumber,
+    name: `Período ${periodNumber}`,
+    periodNumber,
+  }));
+
+  const gradeComponents: GradeComponent[] = [
+    { id: 1, code: 'CONOCIMIENTOS', name: 'Conocimientos', weightPercentage: 30 },
+    { id: 2, code: 'DESEMPEÑO', name: 'Desempeño', weightPercentage: 40 },
+    { id: 3, code: 'PRODUCTO', name: 'Producto', weightPercentage: 30 },
+  ];
+
+  // First period, first moment already graded
+  const grades: Grade[] = subjectEnrollments.flatMap((enrollment) =>
+    gradeComponents.map((component) => ({
+      id: 0,
+      subjectEnrollmentId: enrollment.id,
+      subjectId: enrollment.subjectId,
+      gradePeriodId: 1,
+      gradePeriod: 1,
+      gradeComponentId: component.id,
+      gradeComponent: component.code,
+      gradeMoment: 1,
+      gradeValue: Math.round((random.next() * 3 + 2) * 10) / 10,
+      assignmentDate: '2026-02-20',
+      createdAt: TIMESTAMP,
+      updatedAt: TIMESTAMP,
+    }))
+  ).map((grade, index) => ({ ...grade, id: index + 1 }));
+
+  const classSessions: ClassSession[] = [];
+  const attendance: Attendance[] = [];
+  const firstSession = new Date(`${period.startDate}T00:00:00Z`);
+
+  subjectAssignments.forEach((assignment) => {
+    for (let week = 0; week < SESSIONS_PER_ASSIGNMENT; week++) {
+      const sessionDate = new Date(firstSession);
+      sessionDate.setUTCDate(firstSession.getUTCDate() + week * 7 + (assignment.id % 5));
+
+      const session: ClassSession = {
+        id: classSessions.length + 1,
+        subjectAssignmentId: assignment.id,
+        subjectAssignmentName: assignment.subjectName,
+        sessionDate: toDate(sessionDate),
+        sessionTime: '08:00:00',
+        durationMinutes: 120,
+        status: 'REALIZADA',
+        createdAt: TIMESTAMP,
+        updatedAt: TIMESTAMP,
+      };
+      classSessions.push(session);
+
+      subjectEnrollments
+        .filter((enrollment) => enrollment.subjectAssignmentId === assignment.id)
+        .forEach((enrollment) => {
+          const roll = random.next();
+          const status = roll < 0.8 ? 'PRESENTE' : roll < 0.9 ? 'TARDANZA' : roll < 0.96 ? 'AUSENTE' : 'EXCUSADO';
+          attendance.push({
+            id: attendance.length + 1,
+            subjectEnrollmentId: enrollment.id,
+            classSessionId: session.id,
+            status,
+            assignmentDate: session.sessionDate,
+            isExcused: status === 'EXCUSADO',
+            excuseReason: status === 'EXCUSADO' ? 'Incapacidad médica' : undefined,
+            createdAt: TIMESTAMP,
+            updatedAt: TIMESTAMP,
+          });
+        });
+    }
+  });
+
+  const users: MockUser[] = [
+    { id: 1, username: 'admin', email: 'admin@cesde.edu.co', roles: [roleByName(ROLES.ADMIN)] },
+    {
+      id: 2,
+      username: 'profesor',
+      email: professors[0].email,
+      professorId: professors[0].id,
+      roles: [roleByName(ROLES.PROFESOR)],
+    },
+    {
+      id: 3,
+      username: 'estudiante',
+      email: students[0].email,
+      studentId: students[0].id,
+      roles: [roleByName(ROLES.ESTUDIANTE)],
+    },
+  ].map((user) => ({ ...user, isActive: true, password: MOCK_PASSWORD, createdAt: TIMESTAMP, updatedAt: TIMESTAMP }));
+
+  return {
+    '/roles': roles,
+    '/users': users,
+    '/academic-periods': academicPeriods,
+    '/courses': courses,
+    '/levels': levels,
+    '/subjects': subjects,
+    '/professors': professors,
+    '/students': students,
+    '/course-groups': courseGroups,
+    '/subject-assignments': subjectAssignments,
+    '/course-enrollments': courseEnrollments,
+    '/level-enrollments': levelEnrollments,
+    '/subject-enrollments': subjectEnrollments,
+    '/grade-periods': gradePeriods,
+    '/grade-components': gradeComponents,
+    '/grades': grades,
+    '/class-sessions': classSessions,
+    '/attendance': attendance,
+  };
+};
@@ -0,0 +1,633 @@
+import { AxiosError, CanceledError } from 'axios';
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { MOCK_API_SEED } from '../constants';
+import type {
+  ApiFieldError,
+  ApiResponse,
+  BulkRowResult,
+  BulkUpsertResult,
+  LoginResponse,
+  PagedResponse,
+} from '../types';
+import { tenants } from '../utils/tenant';
+import { createFixtures } from './fixtures';
+import type { MockCollection, MockDatabase, MockUser } from './fixtures';
+
+// Simulated network latency so loading states stay visible
+const MOCK_LATENCY_MS = 250;
+const MOCK_SESSION_MS = 60 * 60 * 1000;
+
+type MockRecord = Record<string, unknown> & { id: number };
+
+interface MockRequest {
+  method: string;
+  segments: string[];
+  query: URLSearchParams;
+  body: Record<string, unknown>;
+  userId: number | null;
+}
+
+interface MockResult {
+  status: number;
+  body: ApiResponse<unknown>;
+}
+
+let db: MockDatabase = createFixtures(MOCK_API_SEED);
+
+/**
+ * Rebuilds the in-memory database from the fixtures, e.g. between test runs.
+ */
+export const resetMockDatabase = (seed = MOCK_API_SEED): void => {
+  db = createFixtures(seed);
+};
+
+const table = (collection: MockCollection) => db[collection] as unknown as MockRecord[];
+
+const isCollection = (path: string): path is MockCollection => path in db;
+
+const ok = (data: unknown, message = 'Operación exitosa', status = 200): MockResult => ({
+  status,
+  body: { success: true, message, data, timestamp: new Date().toISOString() },
+});
+
+const fail = (status: number, message: string, errors?: ApiFieldError[]): MockResult => ({
+  status,
+  body: { success: false, message, errors, timestamp: new Date().toISOString() },
+});
+
+const notFound = () => fail(404, 'Recurso no encontrado');
+
+// Path segments used as `/<collection>/<segment>/<value>` filters
+const FILTERS: Partial<Record<MockCollection, Record<string, string>>> = {
+  '/courses': { code: 'code' },
+  '/levels': { course: 'courseId' },
+  '/subjects': { level: 'levelId', code: 'code' },
+  '/students': { identification: 'identificationNumber' },
+  '/professors': { identification: 'identificationNumber' },
+  '/course-groups': { course: 'courseId', period: 'academicPeriodId' },
+  '/subject-assignments': { subject: 'subjectId', professor: 'professorId', period: 'academicPeriodId' },
+  '/course-enrollments': { student: 'studentId', course: 'courseId', period: 'academicPeriodId' },
+  '/level-enrollments': {
+    'course-enrollment': 'courseEnrollmentId',
+    level: 'levelId',
+    period: 'academicPeriodId',
+    group: 'groupId',
+    status: 'status',
+  },
+  '/subject-enrollments': {
+    'level-enrollment': 'levelEnrollmentId',
+    'subject-assignment': 'subjectAssignmentId',
+    status: 'status',
+  },
+  '/grades': { enrollment: 'subjectEnrollmentId', period: 'gradePeriodId' },
+  '/attendance': { session: 'classSessionId', enrollment: 'subjectEnrollmentId' },
+  '/class-sessions': { 'by-assignment': 'subjectAssignmentId' },
+  '/users': { username: 'username', role: 'roleId' },
+  '/roles': { name: 'name' },
+  '/academic-periods': { year: 'year' },
+};
+
+// Filters that identify a single record and are served by `r.one`
+const SINGLE_RESULT_FILTERS = ['code', 'identification', 'username', 'name'];
+
+// Fields the backend keeps unique, reported as field errors on conflict
+const UNIQUE_FIELDS: Partial<Record<MockCollection, string>> = {
+  '/students': 'identificationNumber',
+  '/professors': 'identificationNumber',
+  '/courses': 'code',
+  '/subjects': 'code',
+  '/users': 'username',
+};
+
+const nextId = (records: MockRecord[]) => records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+
+const findById = <T>(collection: MockCollection, id: unknown) =>
+  table(collection).find((record) => record.id === Number(id)) as T | undefined;
+
+const matchesFilter = (record: MockRecord, field: string, value: string) =>
+  field === 'roleId'
+    ? ((record.roles as { id: number }[] | undefined) ?? []).some((role) => role.id === Number(value))
+    : String(record[field]) === value;
+
+// Passwords never leave the mock backend
+const present = (collection: MockCollection, record: MockRecord) => {
+  const copy = structuredClone(record);
+  if (collection === '/users') delete copy.password;
+  return copy;
+};
+
+const toPage = (collection: MockCollection, records: MockRecord[], query: URLSearchParams) => {
+  const page = Number(query.get('page') ?? 0);
+  const size = Number(query.get('size') ?? 20);
+  const [sortBy = 'id', direction = 'asc'] = (query.get('sort') ?? '').split(',').filter(Boolean);
+
+  const sorted = [...records].sort((a, b) => {
+    const order = String(a[sortBy] ?? '').localeCompare(String(b[sortBy] ?? ''), 'es', { numeric: true });
+    return direction.toLowerCase() === 'desc' ? -order : order;
+  });
+  const content = sorted.slice(page * size, page * size + size).map((record) => present(collection, record));
+  const totalPages = Math.max(1, Math.ceil(records.length / size));
+
+  const paged: PagedResponse<unknown> = {
+    content,
+    page,
+    size,
+    totalElements: records.length,
+    totalPages,
+    first: page === 0,
+    last: page >= totalPages - 1,
+    empty: content.length === 0,
+    sort: { sorted: Boolean(query.get('sort')), sortBy, direction: direction.toUpperCase() === 'DESC' ? 'DESC' : 'ASC' },
+  };
+  return paged;
+};
+
+// Fills in the names and defaults the backend derives from the ids of a DTO
+const enrich = (collection: MockCollection, record: MockRecord): MockRecord => {
+  switch (collection) {
+    case '/students':
+    case '/professors':
+      return { ...record, fullName: `${record.firstName} ${record.lastName}` };
+    case '/levels':
+      return { ...record, courseName: findById<MockRecord>('/courses', record.courseId)?.name };
+    case '/subjects':
+      return { ...record, levelName: findById<MockRecord>('/levels', record.levelId)?.name };
+    case '/course-groups': {
+      const levelId = record.levelId ?? table('/levels').find((level) => level.courseId === record.courseId)?.id;
+      return {
+        currentStudents: 0,
+        ...record,
+        levelId,
+        levelName: findById<MockRecord>('/levels', levelId)?.name,
+        courseName: findById<MockRecord>('/courses', record.courseId)?.name,
+        academicPeriodName: findById<MockRecord>('/academic-periods', record.academicPeriodId)?.name,
+        scheduleShift: record.scheduleShift ?? record.shift,
+      };
+    }
+    case '/course-enrollments':
+      return {
+        enrollmentStatus: 'ACTIVO',
+        ...record,
+        studentName: findById<MockRecord>('/students', record.studentId)?.fullName,
+        courseName: findById<MockRecord>('/courses', record.courseId)?.name,
+      };
+    case '/level-enrollments':
+      return {
+        status: 'EN_CURSO',
+        ...record,
+        levelName: findById<MockRecord>('/levels', record.levelId)?.name,
+        groupCode: findById<MockRecord>('/course-groups', record.groupId)?.groupCode,
+      };
+    case '/subject-enrollments': {
+      const levelEnrollment = findById<MockRecord>('/level-enrollments', record.levelEnrollmentId);
+      const courseEnrollment = findById<MockRecord>('/course-enrollments', levelEnrollment?.courseEnrollmentId);
+      const subject = findById<MockRecord>('/subjects', record.subjectId);
+      return {
+        status: 'EN_CURSO',
+        ...record,
+        studentName: findById<MockRecord>('/students', courseEnrollment?.studentId)?.fullName ?? '',
+        subjectName: subject?.name ?? '',
+        subjectCode: subject?.code,
+      };
+    }
+    case '/subject-assignments': {
+      const subject = findById<MockRecord>('/subjects', record.subjectId);
+      const professor = findById<MockRecord>('/professors', record.professorId);
+      const period = findById<MockRecord>('/academic-periods', record.academicPeriodId);
+      return {
+        groupId: null,
+        schedule: null,
+        classroom: null,
+        maxStudents: null,
+        isActive: true,
+        ...record,
+        subjectName: subject?.name,
+        subjectCode: subject?.code,
+        levelId: subject?.levelId,
+        levelName: subject?.levelName,
+        professorFirstName: professor?.firstName,
+        professorLastName: professor?.lastName,
+        professorFullName: professor?.fullName,
+        professorEmail: professor?.email,
+        academicPeriodName: period?.name,
+        academicPeriodStartDate: period?.startDate,
+        academicPeriodEndDate: period?.endDate,
+        groupName: findById<MockRecord>('/course-groups', record.groupId)?.groupCode ?? null,
+      };
+    }
+    case '/grades':
+      return {
+        gradeMoment: 1,
+        ...record,
+        subjectId: findById<MockRecord>('/subject-enrollments', record.subjectEnrollmentId)?.subjectId,
+        gradePeriod: record.gradePeriodId,
+        gradeComponent: findById<MockRecord>('/grade-components', record.gradeComponentId)?.code,
+      };
+    case '/attendance':
+      return { isExcused: false, ...record };
+    case '/class-sessions':
+      return { status: 'PROGRAMADA', durationMinutes: 120, ...record };
+    case '/users': {
+      const { roleIds, ...user } = record;
+      return Array.isArray(roleIds)
+        ? { ...user, roles: table('/roles').filter((role) => roleIds.includes(role.id)) }
+        : user;
+    }
+    default:
+      return record;
+  }
+};
+
+const checkUnique = (collection: MockCollection, record: MockRecord, id?: number) => {
+  const field = UNIQUE_FIELDS[collection];
+  if (!field) return null;
+  const duplicate = table(collection).some((other) => other.id !== id && other[field] === record[field]);
+  return duplicate ? fail(409, 'Ya existe un registro con ese valor', [{ field, message: 'Este valor ya está registrado' }]) : null;
+};
+
+const insert = (collection: MockCollection, data: Record<string, unknown>) => {
+  const records = table(collection);
+  const now = new Date().toISOString();
+  const record = enrich(collection, { ...data, id: nextId(records), createdAt: now, updatedAt: now });
+  records.push(record);
+  return record;
+};
+
+// Natural keys the bulk endpoints upsert on, as the backend's unique constraints
+const BULK_KEYS = {
+  '/grades': ['subjectEnrollmentId', 'gradePeriodId', 'gradeComponentId'],
+  '/attendance': ['subjectEnrollmentId', 'classSessionId'],
+} as const;
+
+const bulkUpsert = (collection: keyof typeof BULK_KEYS, rows: Record<string, unknown>[]) => {
+  const records = table(collection);
+
+  const results: BulkRowResult<MockRecord>[] = rows.map((row, index) => {
+    if (!findById('/subject-enrollments', row.subjectEnrollmentId)) {
+      return { index, success: false, message: 'La inscripción a la materia no existe' };
+    }
+    if (collection === '/grades' && !(Number(row.gradeValue) >= 0 && Number(row.gradeValue) <= 5)) {
+      return { index, success: false, message: 'La nota debe estar entre 0 y 5' };
+    }
+
+    const existing = records.find((record) => BULK_KEYS[collection].every((key) => record[key] === row[key]));
+    if (!existing) {
+      return { index, success: true, operation: 'CREATED', data: insert(collection, row) };
+    }
+    const position = records.indexOf(existing);
+    records[position] = enrich(collection, { ...existing, ...row, id: existing.id, updatedAt: new Date().toISOString() });
+    return { index, success: true, operation: 'UPDATED', data: records[position] };
+  });
+
+  const result: BulkUpsertResult<MockRecord> = {
+    results,
+    created: results.filter((row) => row.operation === 'CREATED').length,
+    updated: results.filter((row) => row.operation === 'UPDATED').length,
+    failed: results.filter((row) => !row.success).length,
+  };
+  return result;
+};
+
+// Grades and attendance of a group or student are joined through the enrollments
+const subjectEnrollmentIdsWhere = (predicate: (levelEnrollment: MockRecord) => boolean) => {
+  const levelEnrollmentIds = table('/level-enrollments').filter(predicate).map((le) => le.id);
+  return table('/subject-enrollments')
+    .filter((se) => levelEnrollmentIds.includes(se.levelEnrollmentId as number))
+    .map((se) => se.id);
+};
+
+const enrollmentIdsOfStudent = (studentId: number) => {
+  const courseEnrollmentIds = table('/course-enrollments')
+    .filter((ce) => ce.studentId === studentId)
+    .map((ce) => ce.id);
+  return subjectEnrollmentIdsWhere((le) => courseEnrollmentIds.includes(le.courseEnrollmentId as number));
+};
+
+const createSession = (user: MockUser): LoginResponse => ({
+  token: `mock.${user.id}.${Date.now() + MOCK_SESSION_MS}`,
+  type: 'Bearer',
+  userId: user.id,
+  username: user.username,
+  email: user.email,
+  roles: (user.roles ?? []).map((role) => role.name),
+  expiresIn: MOCK_SESSION_MS,
+});
+
+// Tokens look like `mock.<userId>.<expiresAt>`
+const readToken = (authorization: string): number | null => {
+  const [prefix, userId, expiresAt] = authorization.replace(/^Bearer /, '').split('.');
+  if (prefix !== 'mock' || Number(expiresAt) < Date.now()) return null;
+  return Number(userId) || null;
+};
+
+const handleAuth = ({ method, segments, body, userId }: MockRequest): MockResult => {
+  const action = segments.slice(1).join('/');
+  const users = db['/users'];
+
+  if (method === 'post' && action === 'login') {
+    const login = String(body.usernameOrEmail ?? '').toLowerCase();
+    const user = users.find((u) => u.username === login || u.email.toLowerCase() === login);
+    if (!user || user.password !== body.password || !user.isActive) {
+      return fail(401, 'Credenciales inválidas');
+    }
+    return ok(createSession(user), 'Inicio de sesión exitoso');
+  }
+
+  if (method === 'post' && action === 'register') {
+    const conflict = checkUnique('/users', body as MockRecord);
+    if (conflict) return conflict;
+    const user = insert('/users', { ...body, isActive: true }) as unknown as MockUser;
+    return ok(createSession(user), 'Usuario registrado', 201);
+  }
+
+  if (method === 'post' && action === 'validate-token') {
+    const user = users.find((u) => u.id === userId);
+    return ok({ valid: Boolean(user), username: user?.username, message: user ? 'Token válido' : 'Token inválido' });
+  }
+
+  if (['forgot-password', 'reset-password'].includes(action)) {
+    return ok(null);
+  }
+
+  if (segments[1] === 'reset-password' && segments[3] === 'validate') {
+    return ok({ valid: true, expired: false });
+  }
+
+  const user = users.find((u) => u.id === userId);
+  if (!user) return fail(401, 'Sesión inválida o expirada');
+
+  if (action === 'refresh-token') {
+    return ok(createSession(user), 'Token renovado');
+  }
+
+  if (action === 'change-password') {
+    if (user.password !== body.currentPassword) {
+      return fail(400, 'La contraseña actual no es correcta', [
+        { field: 'currentPassword', message: 'La contraseña actual no es correcta' },
+      ]);
+    }
+    user.password = String(body.newPassword);
+    return ok(null, 'Contraseña actualizada');
+  }
+
+  if (segments[1] === 'impersonate') {
+    const target = users.find((u) => u.id === Number(segments[2]));
+    return target ? ok(createSession(target)) : notFound();
+  }
+
+  if (action === '2fa/status') {
+    return ok({ enabled: false });
+  }
+
+  return fail(501, 'Operación no disponible en la API simulada');
+};
+
+// Endpoints that do not map onto a single table
+const handleSpecial = ({ method, segments, query, body }: MockRequest): MockResult | null => {
+  const [resource, first, second] = segments;
+
+  if (method === 'get' && resource === 'grades' && (first === 'group' || first === 'student')) {
+    const ids =
+      first === 'group'
+        ? subjectEnrollmentIdsWhere((le) => le.groupId === Number(second))
+        : enrollmentIdsOfStudent(Number(second));
+    return ok(table('/grades').filter((grade) => ids.includes(grade.subjectEnrollmentId as number)));
+  }
+
+  if (method === 'post' && (resource === 'grades' || resource === 'attendance') && first === 'bulk') {
+    return ok(bulkUpsert(`/${resource}`, Array.isArray(body) ? body : []), 'Carga masiva procesada');
+  }
+
+  if (method === 'get' && resource === 'attendance' && first === 'student') {
+    const ids = enrollmentIdsOfStudent(Number(second));
+    return ok(table('/attendance').filter((record) => ids.includes(record.subjectEnrollmentId as number)));
+  }
+
+  if (method === 'get' && resource === 'attendance' && first === 'date-range') {
+    const start = query.get('startDate') ?? '';
+    const end = query.get('endDate') ?? '9999-12-31';
+    return ok(
+      table('/attendance').filter((record) => {
+        const date = String(record.assignmentDate);
+        return date >= start && date <= end;
+      })
+    );
+  }
+
+  if (resource === 'class-sessions' && (first === 'find-or-create' || first === 'search' || first === 'by-date')) {
+    const date = String(body.sessionDate ?? query.get('date') ?? '');
+    const assignmentId = Number(body.subjectAssignmentId ?? query.get('assignmentId'));
+    const sessions = table('/class-sessions');
+
+    if (first === 'by-date') {
+      return ok(sessions.filter((session) => session.sessionDate === date));
+    }
+
+    const existing = sessions.find(
+      (session) => session.subjectAssignmentId === assignmentId && session.sessionDate === date
+    );
+    if (first === 'search') {
+      return existing ? ok(existing) : notFound();
+    }
+    return existing ? ok(existing) : ok(insert('/class-sessions', body), 'Sesión creada', 201);
+  }
+
+  if (method === 'get' && resource === 'academic-periods' && first === 'current') {
+    const current = table('/academic-periods').find((period) => period.isActive);
+    return current ? ok(current) : notFound();
+  }
+
+  if (method === 'get' && resource === 'roles' && segments[2] === 'users' && segments[3] === 'count') {
+    const roleId = Number(first);
+    return ok(table('/users').filter((user) => matchesFilter(user, 'roleId', String(roleId))).length);
+  }
+
+  if (resource === 'users' && second === 'roles' && segments[3]) {
+    const user = findById<MockUser>('/users', first);
+    if (!user) return notFound();
+    const roleId = Number(segments[3]);
+    const others = (user.roles ?? []).filter((role) => role.id !== roleId);
+    const role = db['/roles'].find((r) => r.id === roleId);
+    user.roles = method === 'delete' || !role ? others : [...others, role];
+    return ok(null);
+  }
+
+  if (method === 'patch' && resource === 'users' && second === 'password') {
+    const user = findById<MockUser>('/users', first);
+    if (!user) return notFound();
+    user.password = String(body.newPassword);
+    return ok(null, 'Contraseña actualizada');
+  }
+
+  return null;
+};
+
+const handleCollection = (collection: MockCollection, request: MockRequest): MockResult => {
+  const { method, query, body } = request;
+  const rest = request.segments.slice(1);
+  const records = table(collection);
+  const id = rest[0] !== undefined && /^\d+$/.test(rest[0]) ? Number(rest[0]) : null;
+
+  if (method === 'get') {
+    if (id !== null && rest.length === 1) {
+      const record = findById<MockRecord>(collection, id);
+      return record ? ok(present(collection, record)) : notFound();
+    }
+
+    const parts = [...rest];
+    const paged = parts[parts.length - 1] === 'paged' && Boolean(parts.pop());
+    if (parts[parts.length - 1] === 'count') {
+      return ok(records.length);
+    }
+
+    let result = records;
+    let single = false;
+
+    if (parts[0] === 'active' || parts[0] === 'enabled') {
+      result = result.filter((record) => record.isActive ?? record.enabled);
+      parts.shift();
+    } else if (parts[0] === 'search') {
+      const term = [...query.entries()].find(([key]) => !['page', 'size', 'sort'].includes(key))?.[1] ?? '';
+      result = result.filter((record) =>
+        Object.values(record).some((value) => typeof value === 'string' && value.toLowerCase().includes(term.toLowerCase()))
+      );
+      parts.shift();
+    }
+
+    // Remaining segments come in `<filter>/<value>` pairs
+    for (let i = 0; i < parts.length; i += 2) {
+      const field = FILTERS[collection]?.[parts[i]];
+      if (!field || parts[i + 1] === undefined) return notFound();
+      result = result.filter((record) => matchesFilter(record, field, decodeURIComponent(parts[i + 1])));
+      single = single || SINGLE_RESULT_FILTERS.includes(parts[i]);
+    }
+
+    if (single) {
+      return result[0] ? ok(present(collection, result[0])) : notFound();
+    }
+    return paged ? ok(toPage(collection, result, query)) : ok(result.map((record) => present(collection, record)));
+  }
+
+  if (method === 'post' && rest.length === 0) {
+    const conflict = checkUnique(collection, body as MockRecord);
+    if (conflict) return conflict;
+    return ok(present(collection, insert(collection, body)), 'Registro creado', 201);
+  }
+
+  const record = id !== null ? findById<MockRecord>(collection, id) : undefined;
+  if (!record) return notFound();
+  const index = records.indexOf(record);
+
+  if (method === 'put' && rest.length === 1) {
+    const conflict = checkUnique(collection, { ...record, ...body }, record.id);
+    if (conflict) return conflict;
+    records[index] = enrich(collection, { ...record, ...body, id: record.id, updatedAt: new Date().toISOString() });
+    return ok(present(collection, records[index]), 'Registro actualizado');
+  }
+
+  if (method === 'patch') {
+    const action = rest[1];
+    const changes: Record<string, unknown> =
+      action === 'deactivate'
+        ? { isActive: false }
+        : action === 'toggle-status'
+          ? { enabled: !record.enabled }
+          : action === 'status'
+            ? { [collection === '/course-enrollments' ? 'enrollmentStatus' : 'status']: query.get('status') ?? body.status }
+            : {};
+    records[index] = { ...record, ...changes, updatedAt: new Date().toISOString() };
+    return ok(present(collection, records[index]), 'Registro actualizado');
+  }
+
+  if (method === 'delete') {
+    records.splice(index, 1);
+    return ok(null, 'Registro eliminado');
+  }
+
+  return notFound();
+};
+
+const route = (request: MockRequest): MockResult => {
+  if (request.segments[0] === 'auth') {
+    return handleAuth(request);
+  }
+
+  if (request.userId === null) {
+    return fail(401, 'Sesión inválida o expirada');
+  }
+
+  const special = handleSpecial(request);
+  if (special) return special;
+
+  const collection = `/${request.segments[0]}`;
+  return isCollection(collection) ? handleCollection(collection, request) : notFound();
+};
+
+const parseBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data !== 'string') return (data as Record<string, unknown>) ?? {};
+  try {
+    const parsed = JSON.parse(data);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+const delay = (ms: number, config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const onAbort = () => {
+      window.clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Axios adapter answering every request from the in-memory database with the
+ * same `ApiResponse` envelopes as the Spring backend. Non-2xx results reject
+ * with an `AxiosError`, just like the HTTP adapter.
+ */
+export const handleMockRequest = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+  await delay(MOCK_LATENCY_MS, config);
+
+  const rawUrl = config.url ?? '';
+  // The token refresh is sent with the full URL of the selected campus
+  const baseUrl = tenants.list().find((tenant) => rawUrl.startsWith(tenant.apiBaseUrl))?.apiBaseUrl ?? '';
+  const relativeUrl = rawUrl.slice(baseUrl.length);
+  const url = new URL(relativeUrl, 'http://mock.local');
+
+  const { status, body } = route({
+    method: (config.method ?? 'get').toLowerCase(),
+    segments: url.pathname.split('/').filter(Boolean),
+    query: url.searchParams,
+    body: parseBody(config.data),
+    userId: readToken(String(config.headers?.Authorization ?? '')),
+  });
+
+  const response: AxiosResponse = {
+    data: structuredClone(body),
+    status,
+    statusText: String(status),
+    headers: {},
+    config,
+    request: {},
+  };
+
+  if (status >= 200 && status < 300) {
+    return response;
+  }
+
+  throw new AxiosError(
+    body.message,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
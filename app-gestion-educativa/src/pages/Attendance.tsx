@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -15,10 +15,19 @@ import { subjectService, subjectAssignmentService } from '../services/academicSe
 import { levelEnrollmentService, subjectEnrollmentService } from '../services/enrollmentService';
 import { attendanceService } from '../services/gradeService';
 import { studentService } from '../services/api';
+import { useProfessorAssignments, isAssignmentForGroup } from '../hooks/useProfessorAssignments';
+import { useQuery } from '../hooks/useQuery';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { useAttendanceOutbox } from '../hooks/useAttendanceOutbox';
+import { isCanceledError, isNetworkError } from '../api/errors';
 import classSessionService from '../services/classSessionService';
+import { attendanceOutbox } from '../services/attendanceOutbox';
+import type { PendingAttendanceSheet } from '../services/attendanceOutbox';
+import { connectivity } from '../utils/connectivity';
+import AttendanceSyncPanel from '../components/shared/AttendanceSyncPanel';
 
 // Import types
-import type { CourseGroup, Subject, Attendance as AttendanceRecord, AttendanceDTO, Student } from '../types';
+import type { Subject, Attendance as AttendanceRecord, AttendanceDTO } from '../types';
 
 interface StudentEnrollmentInfo {
   studentId: number;
@@ -37,17 +46,29 @@ const ATTENDANCE_STATUSES: { value: AttendanceStatus; label: string; color: 'suc
   { value: 'EXCUSADO', label: 'Excusado', color: 'info' }
 ];
 
+const SYNC_STATES: Record<PendingAttendanceSheet['state'], { label: string; color: 'warning' | 'error' }> = {
+  PENDING: { label: 'Pendiente de sincronizar', color: 'warning' },
+  CONFLICT: { label: 'Conflicto de sincronización', color: 'error' },
+  FAILED: { label: 'Error de sincronización', color: 'error' }
+};
+
 const Attendance = () => {
+  const { isScoped, assignments, isLoading: loadingAssignments, error: assignmentsError } = useProfessorAssignments();
+
   // Loading states
   const [isSaving, setIsSaving] = useState(false);
   const [loadingEnrollments, setLoadingEnrollments] = useState(false);
   const [loadingSubjects, setLoadingSubjects] = useState(false);
   const [loadingSession, setLoadingSession] = useState(false);
 
+  // Reference data, shared with the other pages through the query cache
+  const groupsQuery = useQuery('/course-groups', courseGroupService.fetchAll);
+  const studentsQuery = useQuery('/students', studentService.fetchAll);
+  const groups = useMemo(() => groupsQuery.data ?? [], [groupsQuery.data]);
+  const students = useMemo(() => studentsQuery.data ?? [], [studentsQuery.data]);
+
   // Data states
-  const [groups, setGroups] = useState<CourseGroup[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
-  const [students, setStudents] = useState<Student[]>([]);
   const [studentEnrollments, setStudentEnrollments] = useState<StudentEnrollmentInfo[]>([]);
   const [attendanceRecords, setAttendanceRecords] = useState<AttendanceRecord[]>([]);
   const [selectedSubjectAssignment, setSelectedSubjectAssignment] = useState<number>(0);
@@ -60,18 +81,40 @@ const Attendance = () => {
 
   // Temporary state for attendance selections
   const [attendanceSelections, setAttendanceSelections] = useState<Record<number, AttendanceStatus>>({});
+  // Messages of the rows the last save rejected, by subject enrollment
+  const [attendanceErrors, setAttendanceErrors] = useState<Record<number, string>>({});
+
+  // Sheets saved offline, the one of the selected session shows instead of the server records
+  const { sheets: pendingSheets } = useAttendanceOutbox();
+  const pendingSheet = pendingSheets.find(
+    sheet => sheet.subjectAssignmentId === selectedSubjectAssignment && sheet.sessionDate === sessionDate
+  );
+
+  // Professors only see the groups they have an assignment for
+  const visibleGroups = isScoped
+    ? groups.filter(group => assignments.some(a => isAssignmentForGroup(a, group)))
+    : groups;
+
+  // Only the latest enrollments/attendance load may update the table
+  const enrollmentsRequest = useLatestRequest();
+  const attendanceRequest = useLatestRequest();
 
-  // Load initial data
+  const initialDataError = groupsQuery.error ?? studentsQuery.error;
   useEffect(() => {
-    loadInitialData();
-  }, []);
+    if (initialDataError) {
+      toast.error('Error al cargar los datos iniciales');
+    }
+  }, [initialDataError]);
 
   // Load subjects when group changes
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadSubjectsForGroup = async () => {
       if (selectedGroup === 0) {
         setSubjects([]);
         setSelectedSubject(0);
+        setLoadingSubjects(false);
         return;
       }
 
@@ -86,25 +129,40 @@ const Attendance = () => {
         }
 
         // Load subjects for the selected group's level
-        const subjectsData = await subjectService.getByLevel(group.levelId);
-        setSubjects(subjectsData);
-        
-        // Reset selected subject when group changes
-        setSelectedSubject(0);
+        const subjectsData = await subjectService.getByLevel(group.levelId, { signal: controller.signal });
+        // Professors only get the subjects they teach in this group
+        const groupSubjects = isScoped
+          ? subjectsData.filter(subject =>
+              assignments.some(a => a.subjectId === subject.id && isAssignmentForGroup(a, group))
+            )
+          : subjectsData;
+        setSubjects(groupSubjects);
+
+        // Background revalidation of the groups also lands here, so only drop
+        // the selected subject when the group no longer offers it
+        setSelectedSubject(current => (groupSubjects.some(subject => subject.id === current) ? current : 0));
       } catch (error) {
+        if (isCanceledError(error)) return;
         console.error('Error loading subjects for level:', error);
         toast.error('Error al cargar las materias del nivel');
         setSubjects([]);
       } finally {
-        setLoadingSubjects(false);
+        if (!controller.signal.aborted) {
+          setLoadingSubjects(false);
+        }
       }
     };
 
     loadSubjectsForGroup();
-  }, [selectedGroup, groups]);
+
+    // A newer group selection or leaving the page supersedes this request
+    return () => controller.abort();
+  }, [selectedGroup, groups, isScoped, assignments]);
 
   // Load SubjectAssignment when group and subject change
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadSubjectAssignment = async () => {
       if (selectedGroup === 0 || selectedSubject === 0) {
         setSelectedSubjectAssignment(0);
@@ -120,14 +178,14 @@ const Attendance = () => {
           return;
         }
 
-        // Get assignments for this subject and period
-        const assignments = await subjectAssignmentService.getBySubjectAndPeriod(
-          selectedSubject,
-          group.academicPeriodId
-        );
-
-        // Find the active assignment for this group (filter by group if multiple assignments)
-        const activeAssignment = assignments.find(a => a.isActive);
+        // Professors record attendance against their own assignment
+        const activeAssignment = isScoped
+          ? assignments.find(a => a.subjectId === selectedSubject && isAssignmentForGroup(a, group))
+          : (await subjectAssignmentService.getBySubjectAndPeriod(
+              selectedSubject,
+              group.academicPeriodId,
+              { signal: controller.signal }
+            )).find(a => a.isActive);
         
         if (activeAssignment) {
           setSelectedSubjectAssignment(activeAssignment.id);
@@ -136,19 +194,23 @@ const Attendance = () => {
           console.warn('No active subject assignment found for this subject and period');
         }
       } catch (error) {
+        if (isCanceledError(error)) return;
         console.error('Error loading subject assignment:', error);
         setSelectedSubjectAssignment(0);
       }
     };
 
     loadSubjectAssignment();
-  }, [selectedGroup, selectedSubject, groups]);
+
+    return () => controller.abort();
+  }, [selectedGroup, selectedSubject, groups, isScoped, assignments]);
 
   // Load enrollments when group changes
   useEffect(() => {
     if (selectedGroup > 0 && students.length > 0) {
       loadEnrollments(selectedGroup);
     } else {
+      enrollmentsRequest.cancel();
       setStudentEnrollments([]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -168,27 +230,14 @@ const Attendance = () => {
       loadExistingAttendance();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedGroup, selectedSubject, sessionDate, sessionNumber]);
-
-  const loadInitialData = async () => {
-    try {
-      const [groupsData, studentsData] = await Promise.all([
-        courseGroupService.getAll(),
-        studentService.getAll()
-      ]);
-      
-      setGroups(groupsData);
-      setStudents(studentsData);
-      // Subjects will be loaded when a group is selected
-    } catch (error) {
-      console.error('Error loading initial data:', error);
-      toast.error('Error al cargar los datos iniciales');
-    }
-  };
+  }, [selectedGroup, selectedSubject, sessionDate, sessionNumber, pendingSheet?.id]);
 
   const loadEnrollments = async (groupId: number) => {
+    const signal = enrollmentsRequest.start();
+
     if (!groupId) {
       setStudentEnrollments([]);
+      setLoadingEnrollments(false);
       return;
     }
 
@@ -196,7 +245,7 @@ const Attendance = () => {
       setLoadingEnrollments(true);
       
       // Obtener inscripciones de nivel por grupo (correcto)
-      const levelEnrolls = await levelEnrollmentService.getByGroup(groupId);
+      const levelEnrolls = await levelEnrollmentService.getByGroup(groupId, { signal });
       
       if (levelEnrolls.length === 0) {
         toast.info('No hay estudiantes inscritos en este grupo');
@@ -209,12 +258,12 @@ const Attendance = () => {
       
       for (const levelEnroll of levelEnrolls) {
         // Obtener inscripciones de materias para este nivel
-        const subjectEnrolls = await subjectEnrollmentService.getByLevelEnrollment(levelEnroll.id);
+        const subjectEnrolls = await subjectEnrollmentService.getByLevelEnrollment(levelEnroll.id, { signal });
         
         // Encontrar el estudiante
         const student = students.find(s => s.id === levelEnroll.courseEnrollmentId);
         const studentName = student ? `${student.firstName} ${student.lastName}` : 
-                           (levelEnroll as any).studentName || 'Estudiante desconocido';
+                           levelEnroll.studentName || 'Estudiante desconocido';
         
         // Buscar la inscripción de la materia seleccionada
         const subjectEnroll = selectedSubject > 0 
@@ -233,17 +282,25 @@ const Attendance = () => {
       setStudentEnrollments(studentInfos);
       
     } catch (error) {
+      if (isCanceledError(error)) return;
       console.error('Error loading enrollments:', error);
       toast.error('Error al cargar las inscripciones');
       setStudentEnrollments([]);
     } finally {
-      setLoadingEnrollments(false);
+      // A cancelled run still clears the spinner, a superseded one leaves it to the newer run
+      if (enrollmentsRequest.isLatest(signal)) {
+        setLoadingEnrollments(false);
+      }
     }
   };
 
   const loadExistingAttendance = async () => {
+    const signal = attendanceRequest.start();
+
     try {
       const allAttendance = await attendanceService.getAll();
+      // The list is shared through the query cache, so drop superseded results here
+      if (signal.aborted) return;
       // Filter by current session parameters
       const validSubjectEnrollmentIds = studentEnrollments
         .filter(e => e.subjectEnrollmentId)
@@ -279,6 +336,11 @@ const Attendance = () => {
     if (subjectEnrollmentId in attendanceSelections) {
       return attendanceSelections[subjectEnrollmentId];
     }
+    // Then marks saved offline and not synced yet
+    const pendingRow = pendingSheet?.rows.find(row => row.subjectEnrollmentId === subjectEnrollmentId);
+    if (pendingRow) {
+      return pendingRow.status;
+    }
     // Then check existing records
     const existing = getExistingAttendance(subjectEnrollmentId);
     return existing?.status as AttendanceStatus ?? 'PRESENTE';
@@ -289,6 +351,11 @@ const Attendance = () => {
       ...prev,
       [subjectEnrollmentId]: status
     }));
+    if (subjectEnrollmentId in attendanceErrors) {
+      setAttendanceErrors(prev => Object.fromEntries(
+        Object.entries(prev).filter(([errorKey]) => Number(errorKey) !== subjectEnrollmentId)
+      ));
+    }
   };
 
   const handleMarkAll = (status: AttendanceStatus) => {
@@ -301,6 +368,36 @@ const Attendance = () => {
     setAttendanceSelections(newSelections);
   };
 
+  // Keep the sheet on this device until the connection comes back
+  const saveOffline = async () => {
+    const group = groups.find(g => g.id === selectedGroup);
+    const subject = subjects.find(s => s.id === selectedSubject);
+
+    try {
+      await attendanceOutbox.enqueue({
+        subjectAssignmentId: selectedSubjectAssignment,
+        sessionDate: sessionDate,
+        label: `Grupo ${group?.groupCode ?? selectedGroup} - ${subject?.name ?? ''}`,
+        rows: studentEnrollments
+          .filter(enrollment => enrollment.subjectEnrollmentId)
+          .map(enrollment => ({
+            subjectEnrollmentId: enrollment.subjectEnrollmentId!,
+            studentName: enrollment.studentName,
+            status: getAttendanceStatus(enrollment.subjectEnrollmentId)
+          })),
+        baseline: Object.fromEntries(
+          attendanceRecords.map(record => [record.subjectEnrollmentId, { status: record.status, updatedAt: record.updatedAt }])
+        )
+      });
+      setAttendanceSelections({});
+      setAttendanceErrors({});
+      toast.info('Sin conexión: la asistencia quedó guardada en este dispositivo y se sincronizará al recuperar la conexión');
+    } catch (error) {
+      console.error('Error saving attendance offline:', error);
+      toast.error('No se pudo guardar la asistencia sin conexión');
+    }
+  };
+
   const handleSaveAttendance = async () => {
     if (selectedGroup === 0 || selectedSubject === 0) {
       toast.error('Debe seleccionar un grupo y una materia');
@@ -313,6 +410,15 @@ const Attendance = () => {
       return;
     }
 
+    // Writes are never retried (see api/axios.ts), so a connection lost while
+    // saving rejects right away with a network error and lands in the outbox too
+    if (!connectivity.isOnline()) {
+      setIsSaving(true);
+      await saveOffline();
+      setIsSaving(false);
+      return;
+    }
+
     try {
       setIsSaving(true);
       setLoadingSession(true);
@@ -329,6 +435,10 @@ const Attendance = () => {
         });
         classSessionId = session.id;
       } catch (error) {
+        if (isNetworkError(error)) {
+          await saveOffline();
+          return;
+        }
         console.error('Error creating/finding class session:', error);
         toast.error('Error al crear la sesión de clase');
         return;
@@ -336,45 +446,54 @@ const Attendance = () => {
         setLoadingSession(false);
       }
 
-      // Step 2: Create/update attendance records with the real classSessionId
-      const promises: Promise<AttendanceRecord>[] = [];
+      // The connection may have dropped after the session was created
+      if (!connectivity.isOnline()) {
+        await saveOffline();
+        return;
+      }
 
-      studentEnrollments.forEach(enrollment => {
-        if (!enrollment.subjectEnrollmentId) return; // Skip students not enrolled in this subject
-        
-        const status = getAttendanceStatus(enrollment.subjectEnrollmentId);
-        const existing = attendanceRecords.find(
-          record => record.subjectEnrollmentId === enrollment.subjectEnrollmentId
-        );
-
-        if (existing) {
-          // Update existing record
-          const updateData: AttendanceDTO = {
-            subjectEnrollmentId: enrollment.subjectEnrollmentId,
+      // Step 2: Save the whole session at once with the real classSessionId
+      const rows: AttendanceDTO[] = studentEnrollments
+        .filter(enrollment => enrollment.subjectEnrollmentId) // Skip students not enrolled in this subject
+        .map(enrollment => {
+          const status = getAttendanceStatus(enrollment.subjectEnrollmentId);
+          return {
+            subjectEnrollmentId: enrollment.subjectEnrollmentId!,
             classSessionId: classSessionId,
             assignmentDate: sessionDate,
             status: status,
             isExcused: status === 'EXCUSADO'
           };
-          promises.push(attendanceService.update(existing.id, updateData) as Promise<AttendanceRecord>);
-        } else {
-          // Create new record
-          const createData: AttendanceDTO = {
-            subjectEnrollmentId: enrollment.subjectEnrollmentId,
-            classSessionId: classSessionId,
-            assignmentDate: sessionDate,
-            status: status,
-            isExcused: status === 'EXCUSADO'
-          };
-          promises.push(attendanceService.create(createData) as Promise<AttendanceRecord>);
+        });
+
+      const result = await attendanceService.bulkUpsert(rows);
+
+      // Rejected rows keep their selection and show why they were not saved
+      const failedRows: Record<number, string> = {};
+      result.results.forEach(row => {
+        if (!row.success && rows[row.index]) {
+          failedRows[rows[row.index].subjectEnrollmentId] = row.message || 'No se pudo guardar la asistencia';
         }
       });
 
-      await Promise.all(promises);
-      setAttendanceSelections({});
+      setAttendanceSelections(prev => Object.fromEntries(
+        Object.entries(prev).filter(([subjectEnrollmentId]) => subjectEnrollmentId in failedRows)
+      ));
+      setAttendanceErrors(failedRows);
       await loadExistingAttendance();
-      toast.success('Asistencia guardada correctamente');
+
+      if (result.failed === 0) {
+        toast.success('Asistencia guardada correctamente');
+      } else if (result.failed < rows.length) {
+        toast.warning(`Asistencia guardada para ${rows.length - result.failed} estudiantes, ${result.failed} con errores`);
+      } else {
+        toast.error('No se pudo guardar la asistencia de ningún estudiante');
+      }
     } catch (error) {
+      if (isNetworkError(error)) {
+        await saveOffline();
+        return;
+      }
       console.error('Error saving attendance:', error);
       toast.error('Error al guardar la asistencia');
     } finally {
@@ -419,6 +538,24 @@ const Attendance = () => {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Sheets saved offline */}
+          {pendingSheets.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Guardadas sin conexión:</span>
+              {pendingSheets.map(sheet => (
+                <Badge key={sheet.id} variant={SYNC_STATES[sheet.state].color}>
+                  {sheet.label} ({sheet.sessionDate}): {SYNC_STATES[sheet.state].label}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          {assignmentsError && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg p-3">
+              {assignmentsError}
+            </div>
+          )}
+
           {/* Filters */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div>
@@ -427,11 +564,11 @@ const Attendance = () => {
                 value={selectedGroup.toString()}
                 onValueChange={(value: string) => setSelectedGroup(parseInt(value))}
               >
-                <SelectTrigger>
-                  <SelectValue placeholder="Seleccione un grupo" />
+                <SelectTrigger disabled={loadingAssignments}>
+                  <SelectValue placeholder={loadingAssignments ? "Cargando grupos..." : "Seleccione un grupo"} />
                 </SelectTrigger>
                 <SelectContent>
-                  {groups.map((group) => (
+                  {visibleGroups.map((group) => (
                     <SelectItem key={group.id} value={group.id.toString()}>
                       {group.courseName && group.levelName 
                         ? `${group.courseName} - ${group.levelName} - Grupo ${group.groupCode}${group.academicPeriodName ? ` (${group.academicPeriodName})` : ''}`
@@ -508,6 +645,9 @@ const Attendance = () => {
                 </div>
               )}
 
+              {/* Offline sheet of this session */}
+              {pendingSheet && <AttendanceSyncPanel sheet={pendingSheet} />}
+
               {/* Quick Actions */}
               <div className="flex flex-wrap items-center gap-2">
                 <span className="text-sm font-medium text-gray-700">Marcar todos como:</span>
@@ -536,6 +676,11 @@ const Attendance = () => {
                     className="pl-10"
                   />
                 </div>
+                {pendingSheet && (
+                  <Badge variant={SYNC_STATES[pendingSheet.state].color}>
+                    {SYNC_STATES[pendingSheet.state].label}
+                  </Badge>
+                )}
                 <Button 
                   onClick={handleSaveAttendance} 
                   disabled={isSaving || loadingSession || selectedSubjectAssignment === 0}
@@ -614,6 +759,11 @@ const Attendance = () => {
                                       </Button>
                                     ))}
                                   </div>
+                                  {attendanceErrors[enrollment.subjectEnrollmentId!] && (
+                                    <p className="text-xs text-red-600 mt-1">
+                                      {attendanceErrors[enrollment.subjectEnrollmentId!]}
+                                    </p>
+                                  )}
                                 </TableCell>
                                 <TableCell className="text-center">{stats?.total || 0}</TableCell>
                                 <TableCell className="text-center">
@@ -13,8 +13,12 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../components/ui/alert-dialog';
 import { Badge } from '../components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import Can from '../components/shared/Can';
 import type { Course, CourseGroup, CourseDTO, CourseGroupDTO } from '../types';
+import { PERMISSIONS } from '../constants';
 import { courseService, courseGroupService } from '../services/api';
+import { getApiErrorMessage } from '../api/errors';
+import { applyApiFieldErrors } from '../utils/formErrors';
 
 const courseFormSchema = z.object({
   code: z.string().min(1, 'El código del curso es requerido'),
@@ -103,6 +107,7 @@ export default function Courses() {
     register: registerCourse,
     handleSubmit: handleSubmitCourse,
     reset: resetCourse,
+    setError: setCourseError,
     formState: { errors: courseErrors },
     setValue: setCourseValue,
   } = useForm<CourseFormData>({
@@ -116,6 +121,7 @@ export default function Courses() {
     register: registerGroup,
     handleSubmit: handleSubmitGroup,
     reset: resetGroup,
+    setError: setGroupError,
     formState: { errors: groupErrors },
     setValue: setGroupValue,
   } = useForm<GroupFormData>({
@@ -148,7 +154,9 @@ export default function Courses() {
       handleCloseCourseDialog();
     } catch (error) {
       console.error('Error saving course:', error);
-      toast.error('Error al guardar el curso');
+      if (!applyApiFieldErrors(error, setCourseError)) {
+        toast.error(getApiErrorMessage(error, 'Error al guardar el curso'));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -180,7 +188,9 @@ export default function Courses() {
       handleCloseGroupDialog();
     } catch (error) {
       console.error('Error saving group:', error);
-      toast.error('Error al guardar el grupo');
+      if (!applyApiFieldErrors(error, setGroupError)) {
+        toast.error(getApiErrorMessage(error, 'Error al guardar el grupo'));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -275,12 +285,14 @@ export default function Courses() {
         <div className="flex items-center justify-between mb-4">
           <h1 className="text-3xl font-bold text-gray-900">Cursos</h1>
           <Dialog open={isCourseDialogOpen} onOpenChange={setIsCourseDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={() => { setEditingCourse(null); resetCourse(); }}>
-                <Plus className="h-4 w-4 mr-2" />
-                Nuevo Curso
-              </Button>
-            </DialogTrigger>
+            <Can permission={PERMISSIONS.COURSES_WRITE}>
+              <DialogTrigger asChild>
+                <Button onClick={() => { setEditingCourse(null); resetCourse(); }}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nuevo Curso
+                </Button>
+              </DialogTrigger>
+            </Can>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
                 <DialogTitle>
@@ -407,40 +419,42 @@ export default function Courses() {
                       <TableCell>{course.totalLevels} niveles</TableCell>
                       <TableCell>{getStatusBadge(course.isActive)}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEditCourse(course)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <AlertDialog open={deleteCourseId === course.id} onOpenChange={(open) => !open && setDeleteCourseId(null)}>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => setDeleteCourseId(course.id)}
-                              >
-                                <Trash2 className="h-4 w-4 text-red-600" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Esta acción no se puede deshacer. Se eliminará permanentemente el curso {course.name}.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteCourse(course.id)}>
-                                  Eliminar
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
+                        <Can permission={PERMISSIONS.COURSES_WRITE}>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEditCourse(course)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog open={deleteCourseId === course.id} onOpenChange={(open) => !open && setDeleteCourseId(null)}>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setDeleteCourseId(course.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Esta acción no se puede deshacer. Se eliminará permanentemente el curso {course.name}.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeleteCourse(course.id)}>
+                                    Eliminar
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </Can>
                       </TableCell>
                     </TableRow>
                   ))
@@ -502,12 +516,14 @@ export default function Courses() {
         <div className="flex items-center justify-between mb-4">
           <h2 className="text-2xl font-bold text-gray-900">Grupos de Curso</h2>
           <Dialog open={isGroupDialogOpen} onOpenChange={setIsGroupDialogOpen}>
-            <DialogTrigger asChild>
-              <Button onClick={() => { setEditingGroup(null); resetGroup(); }}>
-                <Plus className="h-4 w-4 mr-2" />
-                Nuevo Grupo
-              </Button>
-            </DialogTrigger>
+            <Can permission={PERMISSIONS.COURSES_WRITE}>
+              <DialogTrigger asChild>
+                <Button onClick={() => { setEditingGroup(null); resetGroup(); }}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Nuevo Grupo
+                </Button>
+              </DialogTrigger>
+            </Can>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
                 <DialogTitle>
@@ -681,40 +697,42 @@ export default function Courses() {
                       <TableCell>{group.maxStudents}</TableCell>
                       <TableCell>{getStatusBadge(group.isActive)}</TableCell>
                       <TableCell className="text-right">
-                        <div className="flex justify-end gap-2">
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => handleEditGroup(group)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <AlertDialog open={deleteGroupId === group.id} onOpenChange={(open) => !open && setDeleteGroupId(null)}>
-                            <AlertDialogTrigger asChild>
-                              <Button
-                                variant="ghost"
-                                size="icon"
-                                onClick={() => setDeleteGroupId(group.id)}
-                              >
-                                <Trash2 className="h-4 w-4 text-red-600" />
-                              </Button>
-                            </AlertDialogTrigger>
-                            <AlertDialogContent>
-                              <AlertDialogHeader>
-                                <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
-                                <AlertDialogDescription>
-                                  Esta acción no se puede deshacer. Se eliminará permanentemente el grupo {group.groupCode}.
-                                </AlertDialogDescription>
-                              </AlertDialogHeader>
-                              <AlertDialogFooter>
-                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                                <AlertDialogAction onClick={() => handleDeleteGroup(group.id)}>
-                                  Eliminar
-                                </AlertDialogAction>
-                              </AlertDialogFooter>
-                            </AlertDialogContent>
-                          </AlertDialog>
-                        </div>
+                        <Can permission={PERMISSIONS.COURSES_WRITE}>
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleEditGroup(group)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <AlertDialog open={deleteGroupId === group.id} onOpenChange={(open) => !open && setDeleteGroupId(null)}>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setDeleteGroupId(group.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    Esta acción no se puede deshacer. Se eliminará permanentemente el grupo {group.groupCode}.
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                  <AlertDialogAction onClick={() => handleDeleteGroup(group.id)}>
+                                    Eliminar
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </div>
+                        </Can>
                       </TableCell>
                     </TableRow>
                   ))
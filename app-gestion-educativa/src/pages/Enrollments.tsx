@@ -17,6 +17,8 @@ import { Combobox } from '../components/ui/combobox';
 import { Plus, Trash2, Search, ChevronRight, ChevronLeft, Check } from 'lucide-react';
 import { studentService, courseService, levelService, subjectService, courseGroupService, subjectAssignmentService } from '../services/api';
 import { courseEnrollmentService, levelEnrollmentService, subjectEnrollmentService } from '../services/enrollmentService';
+import { useQuery } from '../hooks/useQuery';
+import { mutateOptimistically } from '../utils/optimistic';
 import type { 
   Student, 
   Course, 
@@ -51,6 +53,13 @@ const enrollmentFormSchema = z.object({
   enrollmentDate: z.string().min(1, 'La fecha de matrícula es requerida')
 });
 
+const ENROLLMENT_STATUSES: { value: CourseEnrollment['enrollmentStatus']; label: string }[] = [
+  { value: 'ACTIVO', label: 'Activo' },
+  { value: 'EGRESADO', label: 'Egresado' },
+  { value: 'RETIRADO', label: 'Retirado' },
+  { value: 'INACTIVO', label: 'Inactivo' }
+];
+
 // Extended enrollment type with related data
 type EnrollmentDisplay = CourseEnrollment & {
   levelEnrollments?: LevelEnrollment[];
@@ -59,7 +68,8 @@ type EnrollmentDisplay = CourseEnrollment & {
 
 const Enrollments = () => {
   // Data states
-  const [students, setStudents] = useState<Student[]>([]);
+  // Student list comes from the query cache shared with Grades and Attendance
+  const { data: students = [] } = useQuery<Student[]>('/students', studentService.fetchAll);
   const [courses, setCourses] = useState<Course[]>([]);
   const [levels, setLevels] = useState<Level[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
@@ -154,13 +164,11 @@ const Enrollments = () => {
   const loadInitialData = async () => {
     try {
       setIsLoading(true);
-      const [studentsData, coursesData, enrollmentsData, groupsData] = await Promise.all([
-        studentService.getAll(),
+      const [coursesData, enrollmentsData, groupsData] = await Promise.all([
         courseService.getActive(),
         courseEnrollmentService.getAll(),
         courseGroupService.getAll()
       ]);
-      setStudents(studentsData);
       setCourses(coursesData);
       setGroups(groupsData);
       
@@ -345,22 +353,28 @@ const Enrollments = () => {
     }
   };
 
-  const handleDelete = async (enrollmentId: number) => {
-    try {
-      setIsSaving(true);
-      
-      // Delete the course enrollment
-      // Note: Backend should handle cascade deletion of related records
-      await courseEnrollmentService.delete(enrollmentId);
-      
-      toast.success('Matrícula eliminada exitosamente');
-      await loadInitialData();
-    } catch (error) {
-      console.error('Error deleting enrollment:', error);
-      toast.error('Error al eliminar la matrícula');
-    } finally {
-      setIsSaving(false);
-    }
+  const handleDelete = (enrollmentId: number) =>
+    // Note: Backend should handle cascade deletion of related records
+    mutateOptimistically({
+      items: enrollments,
+      setItems: setEnrollments,
+      id: enrollmentId,
+      change: () => null,
+      request: () => courseEnrollmentService.delete(enrollmentId),
+      errorMessage: 'Error al eliminar la matrícula',
+      successMessage: 'Matrícula eliminada exitosamente',
+    });
+
+  const handleStatusChange = (enrollment: EnrollmentDisplay, status: CourseEnrollment['enrollmentStatus']) => {
+    if (status === enrollment.enrollmentStatus) return;
+    mutateOptimistically({
+      items: enrollments,
+      setItems: setEnrollments,
+      id: enrollment.id,
+      change: (current) => ({ ...current, enrollmentStatus: status }),
+      request: () => courseEnrollmentService.updateStatus(enrollment.id, status),
+      errorMessage: 'Error al cambiar el estado de la matrícula',
+    });
   };
 
   const handleDialogClose = () => {
@@ -838,16 +852,30 @@ const Enrollments = () => {
                           </div>
                         </TableCell>
                         <TableCell>
-                          <Badge variant={
-                            enrollment.enrollmentStatus === 'ACTIVO' ? 'success' :
-                            enrollment.enrollmentStatus === 'EGRESADO' ? 'default' :
-                            'error'
-                          }>
-                            {enrollment.enrollmentStatus === 'ACTIVO' ? 'Activo' : 
-                             enrollment.enrollmentStatus === 'EGRESADO' ? 'Egresado' : 
-                             enrollment.enrollmentStatus === 'RETIRADO' ? 'Retirado' : 
-                             enrollment.enrollmentStatus === 'INACTIVO' ? 'Inactivo' : enrollment.enrollmentStatus}
-                          </Badge>
+                          <Select
+                            value={enrollment.enrollmentStatus}
+                            onValueChange={(value) =>
+                              handleStatusChange(enrollment, value as CourseEnrollment['enrollmentStatus'])
+                            }
+                          >
+                            <SelectTrigger className={`h-8 w-32 text-xs ${
+                              enrollment.enrollmentStatus === 'ACTIVO' ? 'text-green-700' :
+                              enrollment.enrollmentStatus === 'EGRESADO' ? 'text-gray-700' :
+                              'text-red-700'
+                            }`}>
+                              <span>
+                                {ENROLLMENT_STATUSES.find(status => status.value === enrollment.enrollmentStatus)?.label
+                                  ?? enrollment.enrollmentStatus}
+                              </span>
+                            </SelectTrigger>
+                            <SelectContent>
+                              {ENROLLMENT_STATUSES.map(status => (
+                                <SelectItem key={status.value} value={status.value}>
+                                  {status.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </TableCell>
                         <TableCell className="text-right">
                           <AlertDialog>
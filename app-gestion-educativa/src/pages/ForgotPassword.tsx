@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { MailCheck } from 'lucide-react';
+import { authService } from '../services/authService';
+import { getApiErrorMessage } from '../api/errors';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Button } from '../components/ui/button';
+import { toast } from 'sonner';
+
+const forgotPasswordSchema = z.object({
+  usernameOrEmail: z.string().min(1, 'El usuario o email es requerido'),
+});
+
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
+
+export default function ForgotPassword() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+  } = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+  });
+
+  const onSubmit = async (data: ForgotPasswordFormData) => {
+    try {
+      setIsLoading(true);
+      await authService.requestPasswordReset(data);
+      setIsSent(true);
+    } catch (error: unknown) {
+      toast.error('Error al solicitar el restablecimiento', {
+        description: getApiErrorMessage(error, 'Intenta nuevamente más tarde'),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-cesde-primary/10 to-cesde-accent/10">
+      <div className="w-full max-w-md p-6">
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold mb-2" style={{ color: '#E6007E' }}>
+            CESDE
+          </h1>
+          <p className="text-gray-600">Sistema de Gestión Educativa</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recuperar Contraseña</CardTitle>
+            <CardDescription>
+              Ingresa tu usuario o email y te enviaremos un enlace para restablecer tu contraseña
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isSent ? (
+              <div className="text-center space-y-3">
+                <MailCheck className="w-12 h-12 mx-auto text-cesde-success" />
+                <p className="text-sm text-gray-700">
+                  Si la cuenta existe, recibirás un correo con las instrucciones para restablecer tu contraseña.
+                </p>
+                <p className="text-xs text-gray-500">
+                  El enlace tiene una validez limitada. Revisa también tu carpeta de spam.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="usernameOrEmail">Usuario o Email</Label>
+                  <Input
+                    id="usernameOrEmail"
+                    type="text"
+                    placeholder="usuario o usuario@cesde.edu.co"
+                    {...register('usernameOrEmail')}
+                    disabled={isLoading}
+                  />
+                  {errors.usernameOrEmail && (
+                    <p className="text-sm text-red-600">{errors.usernameOrEmail.message}</p>
+                  )}
+                </div>
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  style={{ backgroundColor: '#E6007E' }}
+                  disabled={isLoading}
+                >
+                  {isLoading ? 'Enviando...' : 'Enviar enlace'}
+                </Button>
+              </form>
+            )}
+
+            <div className="mt-6 text-center text-sm">
+              <Link to="/login" className="text-cesde-primary hover:underline">
+                Volver a iniciar sesión
+              </Link>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
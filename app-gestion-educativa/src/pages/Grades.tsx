@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -15,9 +15,13 @@ import { subjectService } from '../services/academicService';
 import { levelEnrollmentService, subjectEnrollmentService } from '../services/enrollmentService';
 import { gradeService } from '../services/gradeService';
 import { studentService } from '../services/api';
+import { useProfessorAssignments, isAssignmentForGroup } from '../hooks/useProfessorAssignments';
+import { useQuery } from '../hooks/useQuery';
+import { useLatestRequest } from '../hooks/useLatestRequest';
+import { isCanceledError } from '../api/errors';
 
 // Import types
-import type { CourseGroup, Subject, Grade, Student } from '../types';
+import type { Subject, Grade, GradeDTO } from '../types';
 
 interface StudentEnrollmentInfo {
   studentId: number;
@@ -32,16 +36,21 @@ const GRADE_MOMENTS = [1, 2, 3] as const;
 const GRADE_COMPONENTS = ['CONOCIMIENTOS', 'DESEMPEÑO', 'PRODUCTO'] as const;
 
 const Grades = () => {
+  const { isScoped, assignments, isLoading: loadingAssignments, error: assignmentsError } = useProfessorAssignments();
+
+  // Reference data, shared with the other pages through the query cache
+  const groupsQuery = useQuery('/course-groups', courseGroupService.fetchAll);
+  const studentsQuery = useQuery('/students', studentService.fetchAll);
+  const groups = useMemo(() => groupsQuery.data ?? [], [groupsQuery.data]);
+  const students = useMemo(() => studentsQuery.data ?? [], [studentsQuery.data]);
+
   // State for data from API
-  const [groups, setGroups] = useState<CourseGroup[]>([]);
   const [subjects, setSubjects] = useState<Subject[]>([]);
-
-  const [students, setStudents] = useState<Student[]>([]);
   const [studentEnrollments, setStudentEnrollments] = useState<StudentEnrollmentInfo[]>([]);
   const [grades, setGrades] = useState<Grade[]>([]);
   
   // Loading states
-  const [isLoading, setIsLoading] = useState(true);
+  const isLoading = groupsQuery.isLoading || studentsQuery.isLoading;
   const [isSaving, setIsSaving] = useState(false);
   const [loadingEnrollments, setLoadingEnrollments] = useState(false);
   const [loadingSubjects, setLoadingSubjects] = useState(false);
@@ -54,18 +63,34 @@ const Grades = () => {
 
   // Temporary state for grade inputs
   const [gradeInputs, setGradeInputs] = useState<Record<string, string>>({});
+  // Messages of the cells the last save rejected, by grade key
+  const [gradeErrors, setGradeErrors] = useState<Record<string, string>>({});
 
-  // Load initial data
+  // Professors only see the groups they have an assignment for
+  const visibleGroups = isScoped
+    ? groups.filter(group => assignments.some(a => isAssignmentForGroup(a, group)))
+    : groups;
+
+  // Only the latest enrollments/grades load may update the table
+  const enrollmentsRequest = useLatestRequest();
+  const gradesRequest = useLatestRequest();
+
+  const initialDataError = groupsQuery.error ?? studentsQuery.error;
   useEffect(() => {
-    loadInitialData();
-  }, []);
+    if (initialDataError) {
+      toast.error('Error al cargar los datos iniciales');
+    }
+  }, [initialDataError]);
 
   // Load subjects when group changes
   useEffect(() => {
+    const controller = new AbortController();
+
     const loadSubjectsForGroup = async () => {
       if (selectedGroup === 0) {
         setSubjects([]);
         setSelectedSubject(0);
+        setLoadingSubjects(false);
         return;
       }
 
@@ -80,28 +105,42 @@ const Grades = () => {
         }
 
         // Load subjects for the selected group's level
-        const subjectsData = await subjectService.getByLevel(group.levelId);
-        setSubjects(subjectsData);
-        
-        // Reset selected subject when group changes
-        setSelectedSubject(0);
+        const subjectsData = await subjectService.getByLevel(group.levelId, { signal: controller.signal });
+        // Professors only get the subjects they teach in this group
+        const groupSubjects = isScoped
+          ? subjectsData.filter(subject =>
+              assignments.some(a => a.subjectId === subject.id && isAssignmentForGroup(a, group))
+            )
+          : subjectsData;
+        setSubjects(groupSubjects);
+
+        // Background revalidation of the groups also lands here, so only drop
+        // the selected subject when the group no longer offers it
+        setSelectedSubject(current => (groupSubjects.some(subject => subject.id === current) ? current : 0));
       } catch (error) {
+        if (isCanceledError(error)) return;
         console.error('Error loading subjects for level:', error);
         toast.error('Error al cargar las materias del nivel');
         setSubjects([]);
       } finally {
-        setLoadingSubjects(false);
+        if (!controller.signal.aborted) {
+          setLoadingSubjects(false);
+        }
       }
     };
 
     loadSubjectsForGroup();
-  }, [selectedGroup, groups]);
+
+    // A newer group selection or leaving the page supersedes this request
+    return () => controller.abort();
+  }, [selectedGroup, groups, isScoped, assignments]);
 
   // Load enrollments and grades when group changes
   useEffect(() => {
     if (selectedGroup > 0 && students.length > 0) {
       loadEnrollments();
     } else {
+      enrollmentsRequest.cancel();
       setStudentEnrollments([]);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -122,28 +161,12 @@ const Grades = () => {
     }
   }, [selectedGroup, selectedSubject, selectedPeriod, selectedMoment]);
 
-  const loadInitialData = async () => {
-    try {
-      setIsLoading(true);
-      const [groupsData, subjectsData, studentsData] = await Promise.all([
-        courseGroupService.getAll(),
-        subjectService.getAll(),
-        studentService.getAll()
-      ]);
-      setGroups(groupsData);
-      setSubjects(subjectsData);
-      setStudents(studentsData);
-    } catch (error) {
-      console.error('Error loading initial data:', error);
-      toast.error('Error al cargar los datos iniciales');
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
   const loadEnrollments = async () => {
+    const signal = enrollmentsRequest.start();
+
     if (!selectedGroup) {
       setStudentEnrollments([]);
+      setLoadingEnrollments(false);
       return;
     }
 
@@ -151,7 +174,7 @@ const Grades = () => {
       setLoadingEnrollments(true);
       
       // Obtener inscripciones de nivel por grupo (correcto)
-      const levelEnrolls = await levelEnrollmentService.getByGroup(selectedGroup);
+      const levelEnrolls = await levelEnrollmentService.getByGroup(selectedGroup, { signal });
       
       if (levelEnrolls.length === 0) {
         toast.info('No hay estudiantes inscritos en este grupo');
@@ -164,12 +187,12 @@ const Grades = () => {
       
       for (const levelEnroll of levelEnrolls) {
         // Obtener inscripciones de materias para este nivel
-        const subjectEnrolls = await subjectEnrollmentService.getByLevelEnrollment(levelEnroll.id);
+        const subjectEnrolls = await subjectEnrollmentService.getByLevelEnrollment(levelEnroll.id, { signal });
         
         // Encontrar el estudiante (del courseEnrollment)
         const student = students.find(s => s.id === levelEnroll.courseEnrollmentId);
         const studentName = student ? `${student.firstName} ${student.lastName}` : 
-                           (levelEnroll as any).studentName || 'Estudiante desconocido';
+                           levelEnroll.studentName || 'Estudiante desconocido';
         
         // Buscar la inscripción de la materia seleccionada (si hay una seleccionada)
         const subjectEnroll = selectedSubject > 0 
@@ -188,20 +211,27 @@ const Grades = () => {
       setStudentEnrollments(studentInfos);
       
     } catch (error) {
+      if (isCanceledError(error)) return;
       console.error('Error loading enrollments:', error);
       toast.error('Error al cargar las inscripciones');
       setStudentEnrollments([]);
     } finally {
-      setLoadingEnrollments(false);
+      // A cancelled run still clears the spinner, a superseded one leaves it to the newer run
+      if (enrollmentsRequest.isLatest(signal)) {
+        setLoadingEnrollments(false);
+      }
     }
   };
 
   const loadGrades = async () => {
+    const signal = gradesRequest.start();
+
     try {
       // Load grades for the selected group
-      const gradesData = await gradeService.getByGroup(selectedGroup);
+      const gradesData = await gradeService.getByGroup(selectedGroup, { signal });
       setGrades(gradesData);
     } catch (error) {
+      if (isCanceledError(error)) return;
       console.error('Error loading grades:', error);
       toast.error('Error al cargar las calificaciones');
     }
@@ -241,6 +271,9 @@ const Grades = () => {
       ...prev,
       [key]: value
     }));
+    if (key in gradeErrors) {
+      setGradeErrors(prev => Object.fromEntries(Object.entries(prev).filter(([errorKey]) => errorKey !== key)));
+    }
   };
 
   const getInputValue = (subjectEnrollmentId: number, component: typeof GRADE_COMPONENTS[number]) => {
@@ -254,61 +287,56 @@ const Grades = () => {
   };
 
   const handleSaveGrades = async () => {
-    try {
-      setIsSaving(true);
-      const gradesToSave: any[] = [];
-
-      Object.entries(gradeInputs).forEach(([key, value]) => {
-        const [subjectEnrollmentId, period, , component] = key.split('-');
-        const numValue = parseFloat(value);
-
-        if (value !== '' && !isNaN(numValue) && numValue >= 0 && numValue <= 5) {
-          const componentId = getComponentId(component);
-          
-          const existingGrade = grades.find(
-            g => g.subjectEnrollmentId === parseInt(subjectEnrollmentId) &&
-                 g.gradePeriodId === parseInt(period) &&
-                 g.gradeComponentId === componentId
-          );
-
-          const gradeDTO = {
+    // Every valid edited cell becomes one row of the bulk request
+    const rows: { key: string; data: GradeDTO }[] = [];
+
+    Object.entries(gradeInputs).forEach(([key, value]) => {
+      const [subjectEnrollmentId, period, , component] = key.split('-');
+      const numValue = parseFloat(value);
+
+      if (value !== '' && !isNaN(numValue) && numValue >= 0 && numValue <= 5) {
+        rows.push({
+          key,
+          data: {
             subjectEnrollmentId: parseInt(subjectEnrollmentId),
             gradePeriodId: parseInt(period),
-            gradeComponentId: componentId,
+            gradeComponentId: getComponentId(component),
             gradeValue: numValue,
             assignmentDate: new Date().toISOString().split('T')[0]
-          };
-
-          if (existingGrade) {
-            // Update existing grade
-            gradesToSave.push({
-              action: 'update',
-              id: existingGrade.id,
-              data: gradeDTO
-            });
-          } else {
-            // Create new grade
-            gradesToSave.push({
-              action: 'create',
-              data: gradeDTO
-            });
           }
-        }
-      });
+        });
+      }
+    });
+
+    if (rows.length === 0) {
+      toast.info('No hay notas modificadas para guardar');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const result = await gradeService.bulkUpsert(rows.map(row => row.data));
 
-      // Execute all grade operations
-      for (const gradeOp of gradesToSave) {
-        if (gradeOp.action === 'create') {
-          await gradeService.create(gradeOp.data);
-        } else if (gradeOp.action === 'update') {
-          await gradeService.update(gradeOp.id, gradeOp.data);
+      // Rejected cells keep their value and show why they were not saved
+      const failedCells: Record<string, string> = {};
+      result.results.forEach(row => {
+        if (!row.success && rows[row.index]) {
+          failedCells[rows[row.index].key] = row.message || 'No se pudo guardar la nota';
         }
-      }
+      });
 
       // Reload grades
       await loadGrades();
-      setGradeInputs({});
-      toast.success('Notas guardadas correctamente');
+      setGradeInputs(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key in failedCells)));
+      setGradeErrors(failedCells);
+
+      if (result.failed === 0) {
+        toast.success('Notas guardadas correctamente');
+      } else if (result.failed < rows.length) {
+        toast.warning(`${rows.length - result.failed} notas guardadas, ${result.failed} con errores`);
+      } else {
+        toast.error('No se pudo guardar ninguna nota');
+      }
     } catch (error) {
       console.error('Error saving grades:', error);
       toast.error('Error al guardar las notas');
@@ -355,6 +383,12 @@ const Grades = () => {
           </div>
         </CardHeader>
         <CardContent className="space-y-6">
+          {assignmentsError && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 text-sm rounded-lg p-3">
+              {assignmentsError}
+            </div>
+          )}
+
           {/* Filters */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
             <div>
@@ -363,11 +397,11 @@ const Grades = () => {
                 value={selectedGroup.toString()}
                 onValueChange={(value: string) => setSelectedGroup(parseInt(value))}
               >
-                <SelectTrigger>
-                  <SelectValue placeholder="Seleccione un grupo" />
+                <SelectTrigger disabled={loadingAssignments}>
+                  <SelectValue placeholder={loadingAssignments ? "Cargando grupos..." : "Seleccione un grupo"} />
                 </SelectTrigger>
                 <SelectContent>
-                  {groups.map((group) => (
+                  {visibleGroups.map((group) => (
                     <SelectItem key={group.id} value={group.id.toString()}>
                       {group.courseName && group.levelName 
                         ? `${group.courseName} - ${group.levelName} - Grupo ${group.groupCode}${group.academicPeriodName ? ` (${group.academicPeriodName})` : ''}`
@@ -526,23 +560,29 @@ const Grades = () => {
                           </TableCell>
                           {enrollment.subjectEnrollmentId ? (
                             <>
-                              {GRADE_COMPONENTS.map((component) => (
-                                <TableCell key={component} className="text-center">
-                                  <Input
-                                    type="number"
-                                    min="0"
-                                    max="5"
-                                    step="0.1"
-                                    value={getInputValue(enrollment.subjectEnrollmentId!, component)}
-                                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
-                                      handleGradeChange(enrollment.subjectEnrollmentId!, component, e.target.value)
-                                    }
-                                    className="w-20 text-center mx-auto"
-                                    placeholder="0.0"
-                                    disabled={isSaving}
-                                  />
-                                </TableCell>
-                              ))}
+                              {GRADE_COMPONENTS.map((component) => {
+                                const cellError = gradeErrors[getGradeKey(enrollment.subjectEnrollmentId!, component)];
+                                return (
+                                  <TableCell key={component} className="text-center">
+                                    <Input
+                                      type="number"
+                                      min="0"
+                                      max="5"
+                                      step="0.1"
+                                      value={getInputValue(enrollment.subjectEnrollmentId!, component)}
+                                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => 
+                                        handleGradeChange(enrollment.subjectEnrollmentId!, component, e.target.value)
+                                      }
+                                      className={`w-20 text-center mx-auto${cellError ? ' border-red-500' : ''}`}
+                                      placeholder="0.0"
+                                      disabled={isSaving}
+                                      aria-invalid={!!cellError}
+                                      title={cellError}
+                                    />
+                                    {cellError && <p className="text-xs text-red-600 mt-1">{cellError}</p>}
+                                  </TableCell>
+                                );
+                              })}
                               <TableCell className="text-center">
                                 <Badge variant={getAverageColor(calculatePeriodAverage(enrollment.subjectEnrollmentId!))}>
                                   {calculatePeriodAverage(enrollment.subjectEnrollmentId!)}
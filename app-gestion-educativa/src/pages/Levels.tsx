@@ -14,6 +14,8 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import type { Level, Course, LevelDTO } from '../types';
 import { levelService, courseService } from '../services/api';
+import { getApiErrorMessage } from '../api/errors';
+import { applyApiFieldErrors } from '../utils/formErrors';
 
 const levelFormSchema = z.object({
   courseId: z.number().min(1, 'Debe seleccionar un curso'),
@@ -82,7 +84,7 @@ export default function Levels() {
     }
   };
 
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<LevelFormData>({
+  const { register, handleSubmit, reset, setError, formState: { errors }, setValue } = useForm<LevelFormData>({
     resolver: zodResolver(levelFormSchema),
   });
 
@@ -108,7 +110,9 @@ export default function Levels() {
       handleCloseDialog();
     } catch (error) {
       console.error('Error saving level:', error);
-      toast.error('Error al guardar el nivel');
+      if (!applyApiFieldErrors(error, setError)) {
+        toast.error(getApiErrorMessage(error, 'Error al guardar el nivel'));
+      }
     } finally {
       setIsSaving(false);
     }
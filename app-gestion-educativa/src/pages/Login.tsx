@@ -1,25 +1,153 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { useForm } from 'react-hook-form';
+import { Link, useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useAuth } from '../contexts';
+import { getApiErrorMessage } from '../api/errors';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
 import { Button } from '../components/ui/button';
 import { toast } from 'sonner';
+import TenantSelect from '../components/shared/TenantSelect';
+import { getSafeRedirect, REDIRECT_PARAM } from '../utils/redirect';
+import { tenants } from '../utils/tenant';
 
 const loginSchema = z.object({
   usernameOrEmail: z.string().min(1, 'El usuario o email es requerido'),
   password: z.string().min(1, 'La contraseña es requerida'),
+  rememberMe: z.boolean(),
 });
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+const twoFactorSchema = z
+  .object({
+    code: z.string().trim().min(1, 'El código es requerido'),
+    recoveryCode: z.boolean(),
+  })
+  .refine((data) => data.recoveryCode || /^\d{6}$/.test(data.code), {
+    message: 'El código debe tener 6 dígitos',
+    path: ['code'],
+  });
+
+type TwoFactorFormData = z.infer<typeof twoFactorSchema>;
+
+interface TwoFactorStepProps {
+  onVerified: () => void;
+}
+
+// Second login step for accounts with two-factor authentication enabled
+function TwoFactorStep({ onVerified }: TwoFactorStepProps) {
+  const { verifyTwoFactor, cancelTwoFactor } = useAuth();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    control,
+    setError,
+    formState: { errors },
+  } = useForm<TwoFactorFormData>({
+    resolver: zodResolver(twoFactorSchema),
+    defaultValues: {
+      code: '',
+      recoveryCode: false,
+    },
+  });
+
+  const isRecoveryCode = useWatch({ control, name: 'recoveryCode' });
+
+  const onSubmit = async (data: TwoFactorFormData) => {
+    try {
+      setIsLoading(true);
+      await verifyTwoFactor(data.code, data.recoveryCode);
+      onVerified();
+    } catch (error: unknown) {
+      const err = error as { response?: { status?: number } };
+      // The challenge only lives for a few minutes - start over with the password
+      if (err.response?.status === 410) {
+        cancelTwoFactor();
+        toast.error('La verificación expiró', {
+          description: 'Inicia sesión nuevamente',
+        });
+        return;
+      }
+      setError('code', {
+        message: getApiErrorMessage(error, 'Código de verificación inválido'),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="code">
+          {isRecoveryCode ? 'Código de recuperación' : 'Código de verificación'}
+        </Label>
+        <Input
+          id="code"
+          type="text"
+          inputMode={isRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          autoFocus
+          placeholder={isRecoveryCode ? 'xxxx-xxxx' : '123456'}
+          {...register('code')}
+          disabled={isLoading}
+        />
+        {errors.code && (
+          <p className="text-sm text-red-600">{errors.code.message}</p>
+        )}
+        <p className="text-xs text-gray-500">
+          {isRecoveryCode
+            ? 'Cada código de recuperación solo puede usarse una vez.'
+            : 'Ingresa el código de 6 dígitos de tu aplicación de autenticación.'}
+        </p>
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          id="recoveryCode"
+          type="checkbox"
+          {...register('recoveryCode')}
+          disabled={isLoading}
+          className="h-4 w-4 rounded border-gray-300"
+        />
+        <Label htmlFor="recoveryCode" className="font-normal">
+          Usar un código de recuperación
+        </Label>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        style={{ backgroundColor: '#E6007E' }}
+        disabled={isLoading}
+      >
+        {isLoading ? 'Verificando...' : 'Verificar'}
+      </Button>
+
+      <Button
+        type="button"
+        variant="ghost"
+        className="w-full"
+        onClick={cancelTwoFactor}
+        disabled={isLoading}
+      >
+        Volver a iniciar sesión
+      </Button>
+    </form>
+  );
+}
+
 export default function Login() {
   const navigate = useNavigate();
-  const { login, clearError } = useAuth();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+  const { login, clearError, pendingTwoFactor, switchTenant } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
 
   const {
@@ -28,20 +156,48 @@ export default function Login() {
     formState: { errors },
   } = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
+    defaultValues: {
+      usernameOrEmail: '',
+      password: '',
+      rememberMe: false,
+    },
   });
 
+  // Back to the page that required the login (router state first, then ?redirect=)
+  const goToRequestedPage = () => {
+    const from = (location.state as { from?: string } | null)?.from ?? searchParams.get(REDIRECT_PARAM);
+    navigate(getSafeRedirect(from), { replace: true });
+  };
+
+  const completeLogin = () => {
+    toast.success('¡Bienvenido!', {
+      description: 'Has iniciado sesión exitosamente',
+    });
+    goToRequestedPage();
+  };
+
+  // A campus the user is still signed in to needs no new login
+  const handleTenantChange = (tenantId: string) => {
+    clearError();
+    if (switchTenant(tenantId)) {
+      toast.success(`Sesión recuperada en ${tenants.current().name}`);
+      goToRequestedPage();
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     try {
       setIsLoading(true);
       clearError();
-      await login(data);
-      toast.success('¡Bienvenido!', {
-        description: 'Has iniciado sesión exitosamente',
-      });
-      navigate('/dashboard');
-    } catch (error: any) {
+      const { rememberMe, ...credentials } = data;
+      const outcome = await login(credentials, rememberMe);
+      // The second factor is asked for in place of the login form
+      if (outcome === 'authenticated') {
+        completeLogin();
+      }
+    } catch (error: unknown) {
       toast.error('Error al iniciar sesión', {
-        description: error.response?.data?.message || error.message || 'Credenciales inválidas',
+        description: getApiErrorMessage(error, 'Credenciales inválidas'),
       });
     } finally {
       setIsLoading(false);
@@ -60,55 +216,88 @@ export default function Login() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Iniciar Sesión</CardTitle>
+            <CardTitle>{pendingTwoFactor ? 'Verificación en dos pasos' : 'Iniciar Sesión'}</CardTitle>
             <CardDescription>
-              Ingresa tus credenciales para acceder al sistema
+              {pendingTwoFactor
+                ? 'Tu cuenta está protegida con autenticación de dos factores'
+                : 'Ingresa tus credenciales para acceder al sistema'}
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="usernameOrEmail">Usuario o Email</Label>
-                <Input
-                  id="usernameOrEmail"
-                  type="text"
-                  placeholder="admin o admin@cesde.edu.co"
-                  {...register('usernameOrEmail')}
-                  disabled={isLoading}
-                />
-                {errors.usernameOrEmail && (
-                  <p className="text-sm text-red-600">{errors.usernameOrEmail.message}</p>
-                )}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="password">Contraseña</Label>
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  {...register('password')}
-                  disabled={isLoading}
-                />
-                {errors.password && (
-                  <p className="text-sm text-red-600">{errors.password.message}</p>
-                )}
-              </div>
-
-              <Button
-                type="submit"
-                className="w-full"
-                style={{ backgroundColor: '#E6007E' }}
-                disabled={isLoading}
-              >
-                {isLoading ? 'Iniciando sesión...' : 'Iniciar Sesión'}
-              </Button>
-            </form>
-
-            <div className="mt-6 text-center text-sm text-gray-600">
-              <p>Usuario de prueba:</p>
-              <p className="font-mono text-xs mt-1">admin / Lagp2022</p>
-            </div>
+            {pendingTwoFactor ? (
+              <TwoFactorStep onVerified={completeLogin} />
+            ) : (
+              <>
+                <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                  {tenants.isSelectable() && (
+                    <div className="space-y-2">
+                      <Label>Sede</Label>
+                      <TenantSelect onSelect={handleTenantChange} disabled={isLoading} />
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <Label htmlFor="usernameOrEmail">Usuario o Email</Label>
+                    <Input
+                      id="usernameOrEmail"
+                      type="text"
+                      placeholder="admin o admin@cesde.edu.co"
+                      {...register('usernameOrEmail')}
+                      disabled={isLoading}
+                    />
+                    {errors.usernameOrEmail && (
+                      <p className="text-sm text-red-600">{errors.usernameOrEmail.message}</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="password">Contraseña</Label>
+                      <Link to="/forgot-password" className="text-xs text-cesde-primary hover:underline">
+                        ¿Olvidaste tu contraseña?
+                      </Link>
+                    </div>
+                    <Input
+                      id="password"
+                      type="password"
+                      placeholder="••••••••"
+                      {...register('password')}
+                      disabled={isLoading}
+                    />
+                    {errors.password && (
+                      <p className="text-sm text-red-600">{errors.password.message}</p>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <input
+                      id="rememberMe"
+                      type="checkbox"
+                      {...register('rememberMe')}
+                      disabled={isLoading}
+                      className="h-4 w-4 rounded border-gray-300"
+                    />
+                    <Label htmlFor="rememberMe" className="font-normal">
+                      Recordarme en este equipo
+                    </Label>
+                  </div>
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    style={{ backgroundColor: '#E6007E' }}
+                    disabled={isLoading}
+                  >
+                    {isLoading ? 'Iniciando sesión...' : 'Iniciar Sesión'}
+                  </Button>
+                </form>
+
+                <div className="mt-6 text-center text-sm text-gray-600">
+                  <p>Usuario de prueba:</p>
+                  <p className="font-mono text-xs mt-1">admin / Lagp2022</p>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,153 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { toast } from 'sonner';
+import { attendanceService } from '../services/gradeService';
+import { useStudentEnrollments } from '../hooks/useStudentEnrollments';
+import type { Attendance } from '../types';
+
+interface AttendanceStats {
+  total: number;
+  present: number;
+  absent: number;
+  late: number;
+  excused: number;
+  percentage: number;
+}
+
+// Same weighting as the staff attendance view: a late arrival counts as half
+const calculateStats = (records: Attendance[]): AttendanceStats => {
+  const total = records.length;
+  const present = records.filter(r => r.status === 'PRESENTE').length;
+  const absent = records.filter(r => r.status === 'AUSENTE').length;
+  const late = records.filter(r => r.status === 'TARDANZA').length;
+  const excused = records.filter(r => r.status === 'EXCUSADO').length;
+
+  const percentage = total > 0 ? parseFloat(((present + late * 0.5) / total * 100).toFixed(1)) : 0;
+
+  return { total, present, absent, late, excused, percentage };
+};
+
+const getPercentageColor = (percentage: number): 'success' | 'warning' | 'error' | 'default' => {
+  if (percentage >= 80) return 'success';
+  if (percentage >= 70) return 'warning';
+  if (percentage > 0) return 'error';
+  return 'default';
+};
+
+const MyAttendance = () => {
+  const { studentId, enrollments, isLoading, error } = useStudentEnrollments();
+  const [records, setRecords] = useState<Attendance[]>([]);
+  const [loadingRecords, setLoadingRecords] = useState(false);
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    const loadAttendance = async () => {
+      try {
+        setLoadingRecords(true);
+        const attendanceData = await attendanceService.getByStudent(studentId);
+        // Keep only records that belong to this student's own enrollments
+        const ownEnrollmentIds = new Set(enrollments.map((e) => e.id));
+        setRecords(attendanceData.filter((r) => ownEnrollmentIds.has(r.subjectEnrollmentId)));
+      } catch (error) {
+        console.error('Error loading attendance:', error);
+        toast.error('Error al cargar tu asistencia');
+      } finally {
+        setLoadingRecords(false);
+      }
+    };
+
+    loadAttendance();
+  }, [studentId, enrollments]);
+
+  const overall = calculateStats(records);
+
+  return (
+    <div className="p-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Mi Asistencia</CardTitle>
+            {overall.total > 0 && (
+              <Badge variant={getPercentageColor(overall.percentage)}>
+                Asistencia general: {overall.percentage}%
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-48">Materia</TableHead>
+                  <TableHead className="text-center">Sesiones</TableHead>
+                  <TableHead className="text-center">Presente</TableHead>
+                  <TableHead className="text-center">Ausente</TableHead>
+                  <TableHead className="text-center">Tardanza</TableHead>
+                  <TableHead className="text-center">Excusado</TableHead>
+                  <TableHead className="text-center">% Asistencia</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading || loadingRecords ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                      Cargando datos...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                      {error}
+                    </TableCell>
+                  </TableRow>
+                ) : enrollments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="text-center text-gray-500 py-8">
+                      No tienes materias inscritas
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  enrollments.map((enrollment) => {
+                    const stats = calculateStats(
+                      records.filter((r) => r.subjectEnrollmentId === enrollment.id)
+                    );
+                    return (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <p className="font-medium">{enrollment.subjectName}</p>
+                          {enrollment.professorName && (
+                            <p className="text-xs text-gray-500">{enrollment.professorName}</p>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-center">{stats.total}</TableCell>
+                        <TableCell className="text-center">{stats.present}</TableCell>
+                        <TableCell className="text-center">{stats.absent}</TableCell>
+                        <TableCell className="text-center">{stats.late}</TableCell>
+                        <TableCell className="text-center">{stats.excused}</TableCell>
+                        <TableCell className="text-center">
+                          <Badge variant={getPercentageColor(stats.percentage)}>
+                            {stats.percentage}%
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <p className="text-sm text-gray-600">
+            Las tardanzas cuentan como media asistencia. Se recomienda mantener una asistencia mínima del 80%.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MyAttendance;
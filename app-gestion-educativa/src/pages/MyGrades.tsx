@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '../components/ui/card';
+import { Label } from '../components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '../components/ui/table';
+import { Badge } from '../components/ui/badge';
+import { toast } from 'sonner';
+import { gradeService } from '../services/gradeService';
+import { useStudentEnrollments } from '../hooks/useStudentEnrollments';
+import type { Grade } from '../types';
+
+const GRADE_PERIODS = [1, 2, 3] as const;
+const GRADE_MOMENTS = [1, 2, 3] as const;
+const GRADE_COMPONENTS = [
+  { id: 1, label: 'Conocimientos' },
+  { id: 2, label: 'Desempeño' },
+  { id: 3, label: 'Producto' },
+] as const;
+
+const MyGrades = () => {
+  const { studentId, enrollments, isLoading, error } = useStudentEnrollments();
+  const [grades, setGrades] = useState<Grade[]>([]);
+  const [loadingGrades, setLoadingGrades] = useState(false);
+  const [selectedPeriod, setSelectedPeriod] = useState<number>(1);
+
+  useEffect(() => {
+    if (!studentId) return;
+
+    const loadGrades = async () => {
+      try {
+        setLoadingGrades(true);
+        const gradesData = await gradeService.getByStudent(studentId);
+        // Keep only grades that belong to this student's own enrollments
+        const ownEnrollmentIds = new Set(enrollments.map((e) => e.id));
+        setGrades(gradesData.filter((g) => ownEnrollmentIds.has(g.subjectEnrollmentId)));
+      } catch (error) {
+        console.error('Error loading grades:', error);
+        toast.error('Error al cargar tus calificaciones');
+      } finally {
+        setLoadingGrades(false);
+      }
+    };
+
+    loadGrades();
+  }, [studentId, enrollments]);
+
+  // Grades without a moment are recorded against the first one
+  const getGradeValue = (subjectEnrollmentId: number, componentId: number, moment: number) => {
+    const grade = grades.find(
+      (g) =>
+        g.subjectEnrollmentId === subjectEnrollmentId &&
+        g.gradePeriodId === selectedPeriod &&
+        g.gradeComponentId === componentId &&
+        (g.gradeMoment ?? 1) === moment
+    );
+    return grade ? grade.gradeValue.toFixed(1) : '-';
+  };
+
+  const calculatePeriodAverage = (subjectEnrollmentId: number) => {
+    const periodGrades = grades.filter(
+      (g) => g.subjectEnrollmentId === subjectEnrollmentId && g.gradePeriodId === selectedPeriod
+    );
+    if (periodGrades.length === 0) return '-';
+
+    const sum = periodGrades.reduce((acc, g) => acc + g.gradeValue, 0);
+    return (sum / periodGrades.length).toFixed(2);
+  };
+
+  const getAverageColor = (average: string) => {
+    if (average === '-') return 'default';
+    const value = parseFloat(average);
+    if (value >= 4.0) return 'success';
+    if (value >= 3.0) return 'warning';
+    return 'error';
+  };
+
+  const columnCount = 3 + GRADE_COMPONENTS.length * GRADE_MOMENTS.length;
+
+  return (
+    <div className="p-6">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <CardTitle>Mis Notas - Sistema 3×3×3</CardTitle>
+            {enrollments.length > 0 && (
+              <Badge variant="info">
+                {enrollments.length} materia{enrollments.length !== 1 ? 's' : ''}
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="max-w-xs">
+            <Label>Período</Label>
+            <Select
+              value={selectedPeriod.toString()}
+              onValueChange={(value: string) => setSelectedPeriod(parseInt(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GRADE_PERIODS.map((period) => (
+                  <SelectItem key={period} value={period.toString()}>
+                    Período {period}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead rowSpan={2} className="w-48">Materia</TableHead>
+                  {GRADE_COMPONENTS.map((component) => (
+                    <TableHead key={component.id} colSpan={GRADE_MOMENTS.length} className="text-center">
+                      {component.label}
+                    </TableHead>
+                  ))}
+                  <TableHead rowSpan={2} className="text-center">Promedio Período</TableHead>
+                  <TableHead rowSpan={2} className="text-center">Nota Final</TableHead>
+                </TableRow>
+                <TableRow>
+                  {GRADE_COMPONENTS.map((component) =>
+                    GRADE_MOMENTS.map((moment) => (
+                      <TableHead key={`${component.id}-${moment}`} className="text-center text-xs">
+                        M{moment}
+                      </TableHead>
+                    ))
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading || loadingGrades ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center text-gray-500 py-8">
+                      Cargando datos...
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center text-gray-500 py-8">
+                      {error}
+                    </TableCell>
+                  </TableRow>
+                ) : enrollments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={columnCount} className="text-center text-gray-500 py-8">
+                      No tienes materias inscritas
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  enrollments.map((enrollment) => {
+                    const average = calculatePeriodAverage(enrollment.id);
+                    return (
+                      <TableRow key={enrollment.id}>
+                        <TableCell>
+                          <p className="font-medium">{enrollment.subjectName}</p>
+                          <p className="text-xs text-gray-500">
+                            {[enrollment.levelName, enrollment.groupCode && `Grupo ${enrollment.groupCode}`]
+                              .filter(Boolean)
+                              .join(' - ')}
+                          </p>
+                        </TableCell>
+                        {GRADE_COMPONENTS.map((component) =>
+                          GRADE_MOMENTS.map((moment) => (
+                            <TableCell key={`${component.id}-${moment}`} className="text-center">
+                              {getGradeValue(enrollment.id, component.id, moment)}
+                            </TableCell>
+                          ))
+                        )}
+                        <TableCell className="text-center">
+                          <Badge variant={getAverageColor(average)}>{average}</Badge>
+                        </TableCell>
+                        <TableCell className="text-center">
+                          {enrollment.finalGrade !== undefined && enrollment.finalGrade !== null
+                            ? enrollment.finalGrade.toFixed(2)
+                            : '-'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="bg-gray-50 p-4 rounded-lg text-sm text-gray-600">
+            <strong>Escala:</strong> 0.0 - 5.0 |
+            <span className="ml-3"><strong>Aprobado:</strong> ≥ 3.0</span>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default MyGrades;
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { CheckCircle2, Clock, Loader2, XCircle } from 'lucide-react';
+import { authService } from '../services/authService';
+import { getApiErrorMessage } from '../api/errors';
+import { passwordChangeSchema } from '../schemas/password';
+import type { PasswordChangeFormData } from '../schemas/password';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Button } from '../components/ui/button';
+import { toast } from 'sonner';
+
+type TokenStatus = 'validating' | 'valid' | 'invalid' | 'expired' | 'done';
+
+export default function ResetPassword() {
+  const { token = '' } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [status, setStatus] = useState<TokenStatus>('validating');
+  const [username, setUsername] = useState<string | undefined>();
+  const [isLoading, setIsLoading] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    setError,
+  } = useForm<PasswordChangeFormData>({
+    resolver: zodResolver(passwordChangeSchema),
+    defaultValues: {
+      newPassword: '',
+      confirmPassword: '',
+    },
+  });
+
+  useEffect(() => {
+    const checkToken = async () => {
+      try {
+        const result = await authService.validateResetToken(token);
+        if (result.valid) {
+          setUsername(result.username);
+          setStatus('valid');
+        } else {
+          setStatus(result.expired ? 'expired' : 'invalid');
+        }
+      } catch (error: unknown) {
+        const err = error as { response?: { status?: number } };
+        setStatus(err.response?.status === 410 ? 'expired' : 'invalid');
+      }
+    };
+
+    checkToken();
+  }, [token]);
+
+  const onSubmit = async (data: PasswordChangeFormData) => {
+    try {
+      setIsLoading(true);
+      await authService.resetPassword({ token, newPassword: data.newPassword });
+      setStatus('done');
+      toast.success('Contraseña restablecida exitosamente');
+    } catch (error: unknown) {
+      const err = error as { response?: { status?: number } };
+      // The token may expire between validation and submission
+      if (err.response?.status === 410) {
+        setStatus('expired');
+        return;
+      }
+      setError('root.serverError', {
+        message: getApiErrorMessage(error, 'Error al restablecer la contraseña'),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    switch (status) {
+      case 'validating':
+        return (
+          <div className="py-6 text-center text-gray-600">
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-cesde-primary" />
+            <p className="mt-3 text-sm">Verificando enlace...</p>
+          </div>
+        );
+      case 'expired':
+        return (
+          <div className="text-center space-y-3">
+            <Clock className="w-12 h-12 mx-auto text-cesde-accent" />
+            <p className="text-sm text-gray-700">
+              Este enlace de restablecimiento ha expirado.
+            </p>
+            <Button variant="outline" onClick={() => navigate('/forgot-password')}>
+              Solicitar un nuevo enlace
+            </Button>
+          </div>
+        );
+      case 'invalid':
+        return (
+          <div className="text-center space-y-3">
+            <XCircle className="w-12 h-12 mx-auto text-red-600" />
+            <p className="text-sm text-gray-700">
+              El enlace de restablecimiento no es válido o ya fue utilizado.
+            </p>
+            <Button variant="outline" onClick={() => navigate('/forgot-password')}>
+              Solicitar un nuevo enlace
+            </Button>
+          </div>
+        );
+      case 'done':
+        return (
+          <div className="text-center space-y-3">
+            <CheckCircle2 className="w-12 h-12 mx-auto text-cesde-success" />
+            <p className="text-sm text-gray-700">
+              Tu contraseña fue actualizada. Ya puedes iniciar sesión con la nueva contraseña.
+            </p>
+            <Button
+              className="w-full"
+              style={{ backgroundColor: '#E6007E' }}
+              onClick={() => navigate('/login', { replace: true })}
+            >
+              Ir a iniciar sesión
+            </Button>
+          </div>
+        );
+      case 'valid':
+        return (
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            {username && (
+              <p className="text-sm text-gray-600">
+                Restableciendo la contraseña de <span className="font-medium">{username}</span>
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="newPassword">Nueva Contraseña</Label>
+              <Input
+                id="newPassword"
+                type="password"
+                autoComplete="new-password"
+                placeholder="Mínimo 6 caracteres"
+                {...register('newPassword')}
+                disabled={isLoading}
+              />
+              {errors.newPassword && (
+                <p className="text-sm text-red-600">{errors.newPassword.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassword">Confirmar Contraseña</Label>
+              <Input
+                id="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                placeholder="Repita la contraseña"
+                {...register('confirmPassword')}
+                disabled={isLoading}
+              />
+              {errors.confirmPassword && (
+                <p className="text-sm text-red-600">{errors.confirmPassword.message}</p>
+              )}
+            </div>
+
+            {errors.root?.serverError && (
+              <p className="text-sm text-red-600">{errors.root.serverError.message}</p>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full"
+              style={{ backgroundColor: '#E6007E' }}
+              disabled={isLoading}
+            >
+              {isLoading ? 'Guardando...' : 'Restablecer Contraseña'}
+            </Button>
+          </form>
+        );
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-linear-to-br from-cesde-primary/10 to-cesde-accent/10">
+      <div className="w-full max-w-md p-6">
+        <div className="mb-8 text-center">
+          <h1 className="text-4xl font-bold mb-2" style={{ color: '#E6007E' }}>
+            CESDE
+          </h1>
+          <p className="text-gray-600">Sistema de Gestión Educativa</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Restablecer Contraseña</CardTitle>
+            <CardDescription>
+              Define una nueva contraseña para tu cuenta
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {renderContent()}
+
+            {status !== 'done' && (
+              <div className="mt-6 text-center text-sm">
+                <Link to="/login" className="text-cesde-primary hover:underline">
+                  Volver a iniciar sesión
+                </Link>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { Plus, Pencil, Trash2, Search, Users as UsersIcon, Loader2 } from 'lucide-react';
 import type { Role, RoleDTO } from '../types';
 import { roleService } from '../services/api';
+import { getApiErrorMessage } from '../api/errors';
+import { PERMISSIONS, PERMISSION_LABELS } from '../constants';
+import { mutateOptimistically } from '../utils/optimistic';
 
 // Form data type (camelCase)
 type RoleFormData = {
@@ -34,6 +37,7 @@ const Roles = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingRole, setEditingRole] = useState<Role | null>(null);
+  const [selectedPermissions, setSelectedPermissions] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [page, setPage] = useState(0);
@@ -77,6 +81,7 @@ const Roles = () => {
       const roleDTO: RoleDTO = {
         name: data.name,
         description: data.description,
+        permissions: selectedPermissions,
       };
 
       if (editingRole) {
@@ -108,35 +113,64 @@ const Roles = () => {
     setEditingRole(role);
     setValue('name', role.name);
     setValue('description', role.description || '');
+    setSelectedPermissions(role.permissions || []);
     setIsDialogOpen(true);
   };
 
   const handleDelete = async (roleId: number) => {
+    // Get user count for this role
+    let userCount: number;
     try {
-      // Get user count for this role
-      const userCount = await roleService.getUserCount(roleId);
-      
-      if (userCount > 0) {
-        const role = roles.find(r => r.id === roleId);
-        toast.error(`No se puede eliminar el rol "${role?.name}" porque tiene ${userCount} usuario(s) asignado(s)`);
-        return;
-      }
-
-      await roleService.delete(roleId);
-      toast.success('Rol eliminado exitosamente');
-      await loadRoles();
+      userCount = await roleService.getUserCount(roleId);
     } catch (error) {
-      console.error('Error deleting role:', error);
-      toast.error('Error al eliminar el rol');
+      console.error('Error counting role users:', error);
+      toast.error(getApiErrorMessage(error, 'Error al eliminar el rol'));
+      return;
     }
+
+    if (userCount > 0) {
+      const role = roles.find(r => r.id === roleId);
+      toast.error(`No se puede eliminar el rol "${role?.name}" porque tiene ${userCount} usuario(s) asignado(s)`);
+      return;
+    }
+
+    const deleted = await mutateOptimistically({
+      items: roles,
+      setItems: setRoles,
+      id: roleId,
+      change: () => null,
+      request: () => roleService.delete(roleId),
+      errorMessage: 'Error al eliminar el rol',
+      successMessage: 'Rol eliminado exitosamente',
+    });
+    if (deleted) setTotalElements(total => total - 1);
   };
 
+  const handleToggleStatus = (role: Role) =>
+    mutateOptimistically({
+      items: roles,
+      setItems: setRoles,
+      id: role.id,
+      change: (current) => ({ ...current, enabled: !current.enabled }),
+      request: () => roleService.toggleStatus(role.id),
+      errorMessage: 'Error al cambiar el estado del rol',
+    });
+
   const handleDialogClose = () => {
     setIsDialogOpen(false);
     setEditingRole(null);
+    setSelectedPermissions([]);
     reset();
   };
 
+  const handlePermissionToggle = (permission: string) => {
+    setSelectedPermissions(prev =>
+      prev.includes(permission)
+        ? prev.filter(p => p !== permission)
+        : [...prev, permission]
+    );
+  };
+
   const handleSearch = () => {
     setPage(0);
     loadRoles();
@@ -178,7 +212,7 @@ const Roles = () => {
             </Button>
             <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
               <DialogTrigger asChild>
-                <Button onClick={() => { setEditingRole(null); reset(); }}>
+                <Button onClick={() => { setEditingRole(null); setSelectedPermissions([]); reset(); }}>
                   <Plus className="mr-2 h-4 w-4" />
                   Nuevo Rol
                 </Button>
@@ -219,6 +253,29 @@ const Roles = () => {
                       <p className="text-sm text-red-500 mt-1">{errors.description.message}</p>
                     )}
                   </div>
+
+                  <div>
+                    <Label>Permisos</Label>
+                    <div className="border rounded-lg p-3 grid grid-cols-2 gap-2 max-h-56 overflow-y-auto">
+                      {Object.values(PERMISSIONS).map((permission) => (
+                        <div key={permission} className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            id={`permission-${permission}`}
+                            checked={selectedPermissions.includes(permission)}
+                            onChange={() => handlePermissionToggle(permission)}
+                            className="h-4 w-4 rounded border-gray-300"
+                          />
+                          <Label htmlFor={`permission-${permission}`} className="font-normal text-sm">
+                            {PERMISSION_LABELS[permission]}
+                          </Label>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Los roles del sistema conservan sus permisos predeterminados
+                    </p>
+                  </div>
                   </div>
 
                   <div className="flex justify-end space-x-2 pt-4 mt-4">
@@ -241,7 +298,9 @@ const Roles = () => {
                 <TableRow>
                   <TableHead>Nombre del Rol</TableHead>
                   <TableHead>Descripción</TableHead>
+                  <TableHead className="text-center">Permisos</TableHead>
                   <TableHead className="text-center">Usuarios Asignados</TableHead>
+                  <TableHead className="text-center">Estado</TableHead>
                   <TableHead>Fecha de Creación</TableHead>
                   <TableHead className="text-right">Acciones</TableHead>
                 </TableRow>
@@ -249,14 +308,14 @@ const Roles = () => {
               <TableBody>
                 {isLoading ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center py-8">
+                    <TableCell colSpan={7} className="text-center py-8">
                       <Loader2 className="h-6 w-6 animate-spin mx-auto" />
                       <p className="text-gray-500 mt-2">Cargando roles...</p>
                     </TableCell>
                   </TableRow>
                 ) : roles.length === 0 ? (
                   <TableRow>
-                    <TableCell colSpan={5} className="text-center text-gray-500">
+                    <TableCell colSpan={7} className="text-center text-gray-500">
                       No se encontraron roles
                     </TableCell>
                   </TableRow>
@@ -267,12 +326,24 @@ const Roles = () => {
                         <Badge variant="default">{role.name}</Badge>
                       </TableCell>
                       <TableCell>{role.description || '-'}</TableCell>
+                      <TableCell className="text-center">{role.permissions?.length ?? 0}</TableCell>
                       <TableCell className="text-center">
                         <Badge variant="default" className="flex items-center gap-1 w-fit mx-auto">
                           <UsersIcon className="h-3 w-3" />
                           <span>Ver usuarios</span>
                         </Badge>
                       </TableCell>
+                      <TableCell className="text-center">
+                        <button
+                          type="button"
+                          onClick={() => handleToggleStatus(role)}
+                          title={role.enabled ? 'Click para deshabilitar' : 'Click para habilitar'}
+                        >
+                          <Badge variant={role.enabled ? 'success' : 'error'} className="cursor-pointer">
+                            {role.enabled ? 'Habilitado' : 'Deshabilitado'}
+                          </Badge>
+                        </button>
+                      </TableCell>
                       <TableCell>{role.createdAt ? new Date(role.createdAt).toLocaleDateString('es-ES') : '-'}</TableCell>
                       <TableCell className="text-right">
                         <div className="flex justify-end gap-2">
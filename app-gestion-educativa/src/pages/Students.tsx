@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Search, Plus, Edit, Trash2, Loader2 } from 'lucide-react';
+import { Search, Plus, Edit, Trash2, Loader2, UserX } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -13,8 +13,13 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../components/ui/alert-dialog';
 import { Badge } from '../components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import Can from '../components/shared/Can';
 import { studentService } from '../services/api';
 import type { Student, StudentDTO } from '../types';
+import { PERMISSIONS } from '../constants';
+import { getApiErrorMessage } from '../api/errors';
+import { applyApiFieldErrors } from '../utils/formErrors';
+import { mutateOptimistically } from '../utils/optimistic';
 
 const studentFormSchema = z.object({
   firstName: z.string().min(1, 'El nombre es requerido'),
@@ -30,6 +35,13 @@ const studentFormSchema = z.object({
 
 type StudentFormData = z.infer<typeof studentFormSchema>;
 
+// StudentDTO fields whose name differs in the form
+const studentFieldMap: Partial<Record<string, keyof StudentFormData>> = {
+  identificationType: 'documentType',
+  identificationNumber: 'documentNumber',
+  dateOfBirth: 'birthDate',
+};
+
 export default function Students() {
   const [students, setStudents] = useState<Student[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -43,7 +55,7 @@ export default function Students() {
   const [totalElements, setTotalElements] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
 
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<StudentFormData>({
+  const { register, handleSubmit, reset, setError, formState: { errors }, setValue } = useForm<StudentFormData>({
     resolver: zodResolver(studentFormSchema),
     defaultValues: {
       isActive: true,
@@ -105,7 +117,9 @@ export default function Students() {
       handleCloseDialog();
     } catch (error) {
       console.error('Error saving student:', error);
-      toast.error(editingStudent ? 'Error al actualizar el estudiante' : 'Error al crear el estudiante');
+      if (!applyApiFieldErrors(error, setError, studentFieldMap)) {
+        toast.error(getApiErrorMessage(error, editingStudent ? 'Error al actualizar el estudiante' : 'Error al crear el estudiante'));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -126,17 +140,30 @@ export default function Students() {
   };
 
   const handleDelete = async (id: number) => {
-    try {
-      await studentService.delete(id);
-      toast.success('Estudiante eliminado correctamente');
-      await loadStudents();
-      setDeleteId(null);
-    } catch (error) {
-      console.error('Error deleting student:', error);
-      toast.error('Error al eliminar el estudiante');
-    }
+    setDeleteId(null);
+    const deleted = await mutateOptimistically({
+      items: students,
+      setItems: setStudents,
+      id,
+      change: () => null,
+      request: () => studentService.delete(id),
+      errorMessage: 'Error al eliminar el estudiante',
+      successMessage: 'Estudiante eliminado correctamente',
+    });
+    if (deleted) setTotalElements(total => total - 1);
   };
 
+  const handleDeactivate = (student: Student) =>
+    mutateOptimistically({
+      items: students,
+      setItems: setStudents,
+      id: student.id,
+      change: (current) => ({ ...current, isActive: false }),
+      request: () => studentService.deactivate(student.id),
+      errorMessage: 'Error al desactivar el estudiante',
+      successMessage: 'Estudiante desactivado correctamente',
+    });
+
   const handleCloseDialog = () => {
     setIsDialogOpen(false);
     setEditingStudent(null);
@@ -159,12 +186,14 @@ export default function Students() {
       <div className="flex items-center justify-between">
         <h1 className="text-3xl font-bold text-gray-900">Estudiantes</h1>
         <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => { setEditingStudent(null); reset(); }}>
-              <Plus className="h-4 w-4 mr-2" />
-              Nuevo Estudiante
-            </Button>
-          </DialogTrigger>
+          <Can permission={PERMISSIONS.STUDENTS_WRITE}>
+            <DialogTrigger asChild>
+              <Button onClick={() => { setEditingStudent(null); reset(); }}>
+                <Plus className="h-4 w-4 mr-2" />
+                Nuevo Estudiante
+              </Button>
+            </DialogTrigger>
+          </Can>
           <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
@@ -331,40 +360,52 @@ export default function Students() {
                     <TableCell>{student.phone || '-'}</TableCell>
                     <TableCell>{getStatusBadge(student.isActive)}</TableCell>
                     <TableCell className="text-right">
-                      <div className="flex justify-end gap-2">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleEdit(student)}
-                        >
-                          <Edit className="h-4 w-4" />
-                        </Button>
-                        <AlertDialog open={deleteId === student.id} onOpenChange={(open) => !open && setDeleteId(null)}>
-                          <AlertDialogTrigger asChild>
+                      <Can permission={PERMISSIONS.STUDENTS_WRITE}>
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleEdit(student)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          {student.isActive && (
                             <Button
                               variant="ghost"
                               size="icon"
-                              onClick={() => setDeleteId(student.id)}
+                              onClick={() => handleDeactivate(student)}
+                              title="Desactivar"
                             >
-                              <Trash2 className="h-4 w-4 text-red-600" />
+                              <UserX className="h-4 w-4 text-amber-600" />
                             </Button>
-                          </AlertDialogTrigger>
-                          <AlertDialogContent>
-                            <AlertDialogHeader>
-                              <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
-                              <AlertDialogDescription>
-                                Esta acción no se puede deshacer. Se eliminará permanentemente el estudiante {student.firstName} {student.lastName}.
-                              </AlertDialogDescription>
-                            </AlertDialogHeader>
-                            <AlertDialogFooter>
-                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                              <AlertDialogAction onClick={() => handleDelete(student.id)}>
-                                Eliminar
-                              </AlertDialogAction>
-                            </AlertDialogFooter>
-                          </AlertDialogContent>
-                        </AlertDialog>
-                      </div>
+                          )}
+                          <AlertDialog open={deleteId === student.id} onOpenChange={(open) => !open && setDeleteId(null)}>
+                            <AlertDialogTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setDeleteId(student.id)}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-600" />
+                              </Button>
+                            </AlertDialogTrigger>
+                            <AlertDialogContent>
+                              <AlertDialogHeader>
+                                <AlertDialogTitle>¿Estás seguro?</AlertDialogTitle>
+                                <AlertDialogDescription>
+                                  Esta acción no se puede deshacer. Se eliminará permanentemente el estudiante {student.firstName} {student.lastName}.
+                                </AlertDialogDescription>
+                              </AlertDialogHeader>
+                              <AlertDialogFooter>
+                                <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                                <AlertDialogAction onClick={() => handleDelete(student.id)}>
+                                  Eliminar
+                                </AlertDialogAction>
+                              </AlertDialogFooter>
+                            </AlertDialogContent>
+                          </AlertDialog>
+                        </div>
+                      </Can>
                     </TableCell>
                   </TableRow>
                 ))
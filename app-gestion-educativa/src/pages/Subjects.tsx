@@ -16,6 +16,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import type { Subject, Level, SubjectDTO, SubjectAssignmentResponse } from '../types';
 import { subjectService, levelService } from '../services/api';
 import { subjectAssignmentService } from '../services/academicService';
+import { getApiErrorMessage } from '../api/errors';
+import { applyApiFieldErrors } from '../utils/formErrors';
 
 const subjectFormSchema = z.object({
   levelId: z.number().min(1, 'Debe seleccionar un nivel'),
@@ -79,7 +81,7 @@ export default function Subjects() {
     }
   };
 
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<SubjectFormData>({
+  const { register, handleSubmit, reset, setError, formState: { errors }, setValue } = useForm<SubjectFormData>({
     resolver: zodResolver(subjectFormSchema),
     defaultValues: {
       isActive: true,
@@ -110,7 +112,9 @@ export default function Subjects() {
       handleCloseDialog();
     } catch (error) {
       console.error('Error saving subject:', error);
-      toast.error('Error al guardar la materia');
+      if (!applyApiFieldErrors(error, setError)) {
+        toast.error(getApiErrorMessage(error, 'Error al guardar la materia'));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { Search, Plus, Edit, Trash2, Loader2, Calendar } from 'lucide-react';
+import { Search, Plus, Edit, Trash2, Loader2, Calendar, UserX } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -16,6 +16,9 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '.
 import { professorService } from '../services/api';
 import { subjectAssignmentService } from '../services/academicService';
 import type { Professor, ProfessorDTO, SubjectAssignmentResponse } from '../types';
+import { getApiErrorMessage } from '../api/errors';
+import { applyApiFieldErrors } from '../utils/formErrors';
+import { mutateOptimistically } from '../utils/optimistic';
 
 const professorFormSchema = z.object({
   firstName: z.string().min(1, 'El nombre es requerido'),
@@ -32,6 +35,12 @@ const professorFormSchema = z.object({
 
 type ProfessorFormData = z.infer<typeof professorFormSchema>;
 
+// ProfessorDTO fields whose name differs in the form
+const professorFieldMap: Partial<Record<string, keyof ProfessorFormData>> = {
+  identificationType: 'documentType',
+  identificationNumber: 'documentNumber',
+};
+
 export default function Teachers() {
   const [professors, setProfessors] = useState<Professor[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -49,7 +58,7 @@ export default function Teachers() {
   const [totalElements, setTotalElements] = useState(0);
   const [totalPages, setTotalPages] = useState(0);
 
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<ProfessorFormData>({
+  const { register, handleSubmit, reset, setError, formState: { errors }, setValue } = useForm<ProfessorFormData>({
     resolver: zodResolver(professorFormSchema),
     defaultValues: {
       isActive: true,
@@ -111,7 +120,9 @@ export default function Teachers() {
       handleCloseDialog();
     } catch (error) {
       console.error('Error saving professor:', error);
-      toast.error(editingProfessor ? 'Error al actualizar el profesor' : 'Error al crear el profesor');
+      if (!applyApiFieldErrors(error, setError, professorFieldMap)) {
+        toast.error(getApiErrorMessage(error, editingProfessor ? 'Error al actualizar el profesor' : 'Error al crear el profesor'));
+      }
     } finally {
       setIsSaving(false);
     }
@@ -133,17 +144,30 @@ export default function Teachers() {
   };
 
   const handleDelete = async (id: number) => {
-    try {
-      await professorService.delete(id);
-      toast.success('Profesor eliminado correctamente');
-      await loadProfessors();
-      setDeleteId(null);
-    } catch (error) {
-      console.error('Error deleting professor:', error);
-      toast.error('Error al eliminar el profesor');
-    }
+    setDeleteId(null);
+    const deleted = await mutateOptimistically({
+      items: professors,
+      setItems: setProfessors,
+      id,
+      change: () => null,
+      request: () => professorService.delete(id),
+      errorMessage: 'Error al eliminar el profesor',
+      successMessage: 'Profesor eliminado correctamente',
+    });
+    if (deleted) setTotalElements(total => total - 1);
   };
 
+  const handleDeactivate = (professor: Professor) =>
+    mutateOptimistically({
+      items: professors,
+      setItems: setProfessors,
+      id: professor.id,
+      change: (current) => ({ ...current, isActive: false }),
+      request: () => professorService.deactivate(professor.id),
+      errorMessage: 'Error al desactivar el profesor',
+      successMessage: 'Profesor desactivado correctamente',
+    });
+
   const handleViewSchedule = async (professor: Professor) => {
     try {
       setIsLoadingSchedule(true);
@@ -380,6 +404,16 @@ export default function Teachers() {
                         >
                           <Edit className="h-4 w-4" />
                         </Button>
+                        {professor.isActive && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeactivate(professor)}
+                            title="Desactivar"
+                          >
+                            <UserX className="h-4 w-4 text-amber-600" />
+                          </Button>
+                        )}
                         <AlertDialog open={deleteId === professor.id} onOpenChange={(open) => !open && setDeleteId(null)}>
                           <AlertDialogTrigger asChild>
                             <Button
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Copy, Download, Loader2, ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { authService } from '../services/authService';
+import { getApiErrorMessage } from '../api/errors';
+import type { TwoFactorSetupResponse, TwoFactorStatusResponse } from '../types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Button } from '../components/ui/button';
+import { Badge } from '../components/ui/badge';
+
+const codeSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'El código debe tener 6 dígitos'),
+});
+
+type CodeFormData = z.infer<typeof codeSchema>;
+
+type SetupStep = 'loading' | 'disabled' | 'setup' | 'recovery' | 'enabled';
+
+export default function TwoFactorSettings() {
+  const [step, setStep] = useState<SetupStep>('loading');
+  const [status, setStatus] = useState<TwoFactorStatusResponse | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetupResponse | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors },
+  } = useForm<CodeFormData>({
+    resolver: zodResolver(codeSchema),
+    defaultValues: { code: '' },
+  });
+
+  useEffect(() => {
+    const loadStatus = async () => {
+      try {
+        const statusData = await authService.getTwoFactorStatus();
+        setStatus(statusData);
+        setStep(statusData.enabled ? 'enabled' : 'disabled');
+      } catch (error) {
+        console.error('Error loading two-factor status:', error);
+        toast.error('Error al cargar la configuración de seguridad');
+        setStep('disabled');
+      }
+    };
+
+    loadStatus();
+  }, []);
+
+  const handleStartSetup = async () => {
+    try {
+      setIsSaving(true);
+      const setupData = await authService.setupTwoFactor();
+      setSetup(setupData);
+      reset();
+      setStep('setup');
+    } catch (error) {
+      console.error('Error starting two-factor setup:', error);
+      toast.error(getApiErrorMessage(error, 'Error al iniciar la configuración'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onEnable = async (data: CodeFormData) => {
+    try {
+      setIsSaving(true);
+      const codes = await authService.enableTwoFactor({ code: data.code });
+      setRecoveryCodes(codes);
+      setSetup(null);
+      setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+      reset();
+      setStep('recovery');
+      toast.success('Autenticación de dos factores activada');
+    } catch (error) {
+      console.error('Error enabling two-factor:', error);
+      setError('code', { message: getApiErrorMessage(error, 'Código de verificación inválido') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onRegenerate = async (data: CodeFormData) => {
+    try {
+      setIsSaving(true);
+      const codes = await authService.regenerateRecoveryCodes({ code: data.code });
+      setRecoveryCodes(codes);
+      setStatus({ enabled: true, recoveryCodesRemaining: codes.length });
+      reset();
+      setStep('recovery');
+      toast.success('Se generaron nuevos códigos de recuperación');
+    } catch (error) {
+      console.error('Error regenerating recovery codes:', error);
+      setError('code', { message: getApiErrorMessage(error, 'Código de verificación inválido') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const onDisable = async (data: CodeFormData) => {
+    try {
+      setIsSaving(true);
+      await authService.disableTwoFactor({ code: data.code });
+      setStatus({ enabled: false });
+      reset();
+      setStep('disabled');
+      toast.success('Autenticación de dos factores desactivada');
+    } catch (error) {
+      console.error('Error disabling two-factor:', error);
+      setError('code', { message: getApiErrorMessage(error, 'Código de verificación inválido') });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyCodes = async () => {
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Códigos copiados al portapapeles');
+    } catch {
+      toast.error('No se pudieron copiar los códigos');
+    }
+  };
+
+  const handleDownloadCodes = () => {
+    const blob = new Blob([recoveryCodes.join('\n')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'cesde-codigos-recuperacion.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderCodeInput = () => (
+    <div className="space-y-2">
+      <Label htmlFor="code">Código de verificación</Label>
+      <Input
+        id="code"
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        placeholder="123456"
+        className="max-w-xs"
+        {...register('code')}
+        disabled={isSaving}
+      />
+      {errors.code && (
+        <p className="text-sm text-red-600">{errors.code.message}</p>
+      )}
+    </div>
+  );
+
+  const renderContent = () => {
+    switch (step) {
+      case 'loading':
+        return (
+          <div className="py-6 text-center text-gray-600">
+            <Loader2 className="w-8 h-8 mx-auto animate-spin text-cesde-primary" />
+          </div>
+        );
+      case 'disabled':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Además de tu contraseña, se te pedirá un código de 6 dígitos generado por una
+              aplicación de autenticación (Google Authenticator, Microsoft Authenticator, Authy...).
+            </p>
+            <Button onClick={handleStartSetup} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Activar autenticación de dos factores
+            </Button>
+          </div>
+        );
+      case 'setup':
+        return (
+          <form onSubmit={handleSubmit(onEnable)} className="space-y-4">
+            <p className="text-sm text-gray-700">
+              1. Escanea este código QR con tu aplicación de autenticación.
+            </p>
+            {setup?.qrCodeImage && (
+              <img
+                src={setup.qrCodeImage}
+                alt="Código QR para la aplicación de autenticación"
+                className="w-48 h-48 border rounded-lg"
+              />
+            )}
+            <div className="text-sm text-gray-600">
+              <p>¿No puedes escanearlo? Ingresa esta clave manualmente:</p>
+              <p className="font-mono text-base mt-1 break-all">{setup?.secret}</p>
+            </div>
+            <p className="text-sm text-gray-700">
+              2. Ingresa el código que muestra la aplicación para confirmar.
+            </p>
+            {renderCodeInput()}
+            <div className="flex gap-2">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Confirmar y activar
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setSetup(null);
+                  setStep('disabled');
+                }}
+                disabled={isSaving}
+              >
+                Cancelar
+              </Button>
+            </div>
+          </form>
+        );
+      case 'recovery':
+        return (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-700">
+              Guarda estos códigos de recuperación en un lugar seguro. Cada uno sirve una sola vez
+              para iniciar sesión si pierdes acceso a tu aplicación de autenticación.
+              <strong> No se volverán a mostrar.</strong>
+            </p>
+            <div className="grid grid-cols-2 gap-2 bg-gray-50 p-4 rounded-lg font-mono text-sm max-w-md">
+              {recoveryCodes.map((code) => (
+                <span key={code}>{code}</span>
+              ))}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={handleCopyCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copiar
+              </Button>
+              <Button variant="outline" onClick={handleDownloadCodes}>
+                <Download className="mr-2 h-4 w-4" />
+                Descargar
+              </Button>
+              <Button
+                onClick={() => {
+                  setRecoveryCodes([]);
+                  setStep('enabled');
+                }}
+              >
+                Ya guardé mis códigos
+              </Button>
+            </div>
+          </div>
+        );
+      case 'enabled':
+        return (
+          <form className="space-y-4" onSubmit={handleSubmit(onRegenerate)}>
+            <div className="flex items-center gap-2">
+              <Badge variant="success">Activa</Badge>
+              {status?.recoveryCodesRemaining !== undefined && (
+                <span className="text-sm text-gray-600">
+                  {status.recoveryCodesRemaining} código{status.recoveryCodesRemaining !== 1 ? 's' : ''} de recuperación disponible{status.recoveryCodesRemaining !== 1 ? 's' : ''}
+                </span>
+              )}
+            </div>
+            <p className="text-sm text-gray-700">
+              Para generar nuevos códigos de recuperación o desactivar la verificación, confirma con
+              un código de tu aplicación de autenticación.
+            </p>
+            {renderCodeInput()}
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" variant="outline" disabled={isSaving}>
+                Generar nuevos códigos
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                onClick={handleSubmit(onDisable)}
+                disabled={isSaving}
+              >
+                <ShieldOff className="mr-2 h-4 w-4" />
+                Desactivar
+              </Button>
+            </div>
+          </form>
+        );
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-3xl">
+      <Card>
+        <CardHeader>
+          <CardTitle>Autenticación de dos factores</CardTitle>
+          <CardDescription>
+            Protege tu cuenta con un segundo paso de verificación al iniciar sesión
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{renderContent()}</CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,9 +12,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '../components/ui/alert-dialog';
 import { Badge } from '../components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
-import { Plus, Pencil, Trash2, Search, Key, Loader2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, Search, Key, Loader2, Eye } from 'lucide-react';
 import type { User, Role, UserDTO } from '../types';
 import { userService, roleService } from '../services/api';
+import { getApiErrorMessage } from '../api/errors';
+import { passwordChangeSchema } from '../schemas/password';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../contexts';
+import { HOME_PATH, PERMISSIONS } from '../constants';
+import Can from '../components/shared/Can';
+import type { PasswordChangeFormData } from '../schemas/password';
 
 // Form data types (camelCase)
 type UserFormData = {
@@ -26,11 +33,6 @@ type UserFormData = {
   roles: number[];
 };
 
-type PasswordChangeFormData = {
-  newPassword: string;
-  confirmPassword: string;
-};
-
 const userFormSchema = z.object({
   username: z.string().min(3, 'El usuario debe tener al menos 3 caracteres'),
   email: z.string().email('Email inválido'),
@@ -40,15 +42,9 @@ const userFormSchema = z.object({
   roles: z.array(z.number()).min(1, 'Debe seleccionar al menos un rol')
 });
 
-const passwordChangeSchema = z.object({
-  newPassword: z.string().min(6, 'La contraseña debe tener al menos 6 caracteres'),
-  confirmPassword: z.string()
-}).refine(data => data.newPassword === data.confirmPassword, {
-  message: 'Las contraseñas no coinciden',
-  path: ['confirmPassword']
-});
-
 const Users = () => {
+  const navigate = useNavigate();
+  const { user: currentUser, impersonate } = useAuth();
   const [roles, setRoles] = useState<Role[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
@@ -59,6 +55,7 @@ const Users = () => {
   const [selectedRoles, setSelectedRoles] = useState<number[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
   const [page, setPage] = useState(0);
   const [pageSize, setPageSize] = useState(10);
   const [totalElements, setTotalElements] = useState(0);
@@ -109,7 +106,7 @@ const Users = () => {
     }
   });
 
-  const { register: registerPassword, handleSubmit: handleSubmitPassword, formState: { errors: passwordErrors }, reset: resetPassword } = useForm<PasswordChangeFormData>({
+  const { register: registerPassword, handleSubmit: handleSubmitPassword, formState: { errors: passwordErrors }, reset: resetPassword, setError: setPasswordError } = useForm<PasswordChangeFormData>({
     resolver: zodResolver(passwordChangeSchema),
     defaultValues: {
       newPassword: '',
@@ -150,12 +147,22 @@ const Users = () => {
     }
   };
 
-  const onPasswordChange = () => {
+  const onPasswordChange = async (data: PasswordChangeFormData) => {
     if (!changingPasswordUser) return;
 
-    // Note: Password change endpoint would need to be implemented in backend
-    toast.success(`Contraseña cambiada exitosamente para ${changingPasswordUser.username}`);
-    handlePasswordDialogClose();
+    try {
+      setIsChangingPassword(true);
+      await userService.changePassword(changingPasswordUser.id, { newPassword: data.newPassword });
+      toast.success(`Contraseña cambiada exitosamente para ${changingPasswordUser.username}`);
+      handlePasswordDialogClose();
+    } catch (error: unknown) {
+      console.error('Error changing password:', error);
+      setPasswordError('root.serverError', {
+        message: getApiErrorMessage(error, 'Error al cambiar la contraseña'),
+      });
+    } finally {
+      setIsChangingPassword(false);
+    }
   };
 
   const handleEdit = (user: User) => {
@@ -175,6 +182,17 @@ const Users = () => {
     setIsPasswordDialogOpen(true);
   };
 
+  const handleImpersonate = async (user: User) => {
+    try {
+      await impersonate(user.id);
+      toast.success(`Ahora ves el sistema como ${user.username}`);
+      navigate(HOME_PATH);
+    } catch (error) {
+      console.error('Error impersonating user:', error);
+      toast.error('Error al iniciar la vista como usuario');
+    }
+  };
+
   const handleDelete = async (userId: number) => {
     try {
       await userService.delete(userId);
@@ -416,6 +434,18 @@ const Users = () => {
                           >
                             <Key className="h-4 w-4" />
                           </Button>
+                          {user.id !== currentUser?.userId && user.isActive && (
+                            <Can permission={PERMISSIONS.USERS_IMPERSONATE}>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                title="Ver como este usuario"
+                                onClick={() => handleImpersonate(user)}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </Can>
+                          )}
                           <AlertDialog>
                             <AlertDialogTrigger asChild>
                               <Button variant="outline" size="sm">
@@ -530,13 +560,18 @@ const Users = () => {
                 <p className="text-sm text-red-500 mt-1">{passwordErrors.confirmPassword.message}</p>
               )}
             </div>
+
+            {passwordErrors.root?.serverError && (
+              <p className="text-sm text-red-500">{passwordErrors.root.serverError.message}</p>
+            )}
             </div>
 
             <div className="flex justify-end space-x-2 pt-4 mt-4">
               <Button type="button" variant="outline" onClick={handlePasswordDialogClose}>
                 Cancelar
               </Button>
-              <Button type="submit">
+              <Button type="submit" disabled={isChangingPassword}>
+                {isChangingPassword && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 Cambiar Contraseña
               </Button>
             </div>
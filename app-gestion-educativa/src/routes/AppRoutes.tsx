@@ -0,0 +1,57 @@
+import { useEffect } from 'react';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import ProtectedRoute from '../components/shared/ProtectedRoute';
+import MainLayout from '../components/layout/MainLayout';
+import { publicRoutes, protectedRoutes, findRoute } from './registry';
+import { HOME_PATH } from '../constants';
+
+const APP_TITLE = 'CESDE - Gestión Educativa';
+
+export default function AppRoutes() {
+  const location = useLocation();
+
+  // Keep the browser tab title in sync with the current page
+  useEffect(() => {
+    const route = findRoute(location.pathname);
+    document.title = route ? `${route.title} | ${APP_TITLE}` : APP_TITLE;
+  }, [location.pathname]);
+
+  return (
+    <Routes>
+      {/* Public routes */}
+      {publicRoutes.map(({ path, component: Page }) => (
+        <Route key={path} path={path} element={<Page />} />
+      ))}
+
+      {/* Protected routes */}
+      <Route
+        path="/"
+        element={
+          <ProtectedRoute>
+            <MainLayout />
+          </ProtectedRoute>
+        }
+      >
+        <Route index element={<Navigate to={HOME_PATH} replace />} />
+        {protectedRoutes.map(({ path, component: Page, permissions }) => (
+          <Route
+            key={path}
+            path={path.slice(1)}
+            element={
+              permissions ? (
+                <ProtectedRoute permissions={permissions}>
+                  <Page />
+                </ProtectedRoute>
+              ) : (
+                <Page />
+              )
+            }
+          />
+        ))}
+      </Route>
+
+      {/* Fallback route */}
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
+}
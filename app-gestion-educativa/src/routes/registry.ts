@@ -0,0 +1,195 @@
+import type { ComponentType } from 'react';
+import { matchPath } from 'react-router-dom';
+import type { LucideIcon } from 'lucide-react';
+import {
+  LayoutDashboard,
+  Users as UsersIcon,
+  GraduationCap,
+  BookOpen,
+  ClipboardList,
+  Calendar,
+  UserCog,
+  Layers,
+  BookMarked,
+  CalendarDays,
+  UserPlus,
+  Shield,
+  UserCheck,
+  Award,
+  CalendarCheck,
+} from 'lucide-react';
+import Login from '../pages/Login';
+import ForgotPassword from '../pages/ForgotPassword';
+import ResetPassword from '../pages/ResetPassword';
+import Dashboard from '../pages/Dashboard';
+import Students from '../pages/Students';
+import Teachers from '../pages/Teachers';
+import Courses from '../pages/Courses';
+import Levels from '../pages/Levels';
+import Subjects from '../pages/Subjects';
+import SubjectAssignments from '../pages/SubjectAssignments';
+import AcademicPeriods from '../pages/AcademicPeriods';
+import Enrollments from '../pages/Enrollments';
+import Grades from '../pages/Grades';
+import Attendance from '../pages/Attendance';
+import MyGrades from '../pages/MyGrades';
+import MyAttendance from '../pages/MyAttendance';
+import Users from '../pages/Users';
+import Roles from '../pages/Roles';
+import TwoFactorSettings from '../pages/TwoFactorSettings';
+import { PERMISSIONS, HOME_PATH, LOGIN_PATH } from '../constants';
+import type { Permission } from '../constants';
+
+export interface AppRoute {
+  /** Absolute path, may contain params (e.g. `/reset-password/:token`) */
+  path: string;
+  /** Page title, also used as sidebar label and breadcrumb */
+  title: string;
+  component: ComponentType;
+  /** Sidebar icon. Routes without an icon are not listed in the sidebar */
+  icon?: LucideIcon;
+  /** Any of these permissions grants access. Omit for every authenticated user */
+  permissions?: Permission[];
+}
+
+// Pages reachable without a session
+export const publicRoutes: AppRoute[] = [
+  { path: LOGIN_PATH, title: 'Iniciar Sesión', component: Login },
+  { path: '/forgot-password', title: 'Recuperar Contraseña', component: ForgotPassword },
+  { path: '/reset-password/:token', title: 'Restablecer Contraseña', component: ResetPassword },
+];
+
+// Pages rendered inside MainLayout, in sidebar order
+export const protectedRoutes: AppRoute[] = [
+  {
+    path: '/dashboard',
+    title: 'Dashboard',
+    component: Dashboard,
+    icon: LayoutDashboard,
+  },
+  {
+    path: '/students',
+    title: 'Estudiantes',
+    component: Students,
+    icon: UsersIcon,
+    permissions: [PERMISSIONS.STUDENTS_READ],
+  },
+  {
+    path: '/teachers',
+    title: 'Profesores',
+    component: Teachers,
+    icon: GraduationCap,
+    permissions: [PERMISSIONS.TEACHERS_MANAGE],
+  },
+  {
+    path: '/courses',
+    title: 'Cursos',
+    component: Courses,
+    icon: BookOpen,
+    permissions: [PERMISSIONS.COURSES_READ],
+  },
+  {
+    path: '/levels',
+    title: 'Niveles',
+    component: Levels,
+    icon: Layers,
+    permissions: [PERMISSIONS.LEVELS_MANAGE],
+  },
+  {
+    path: '/subjects',
+    title: 'Materias',
+    component: Subjects,
+    icon: BookMarked,
+    permissions: [PERMISSIONS.SUBJECTS_MANAGE],
+  },
+  {
+    path: '/subject-assignments',
+    title: 'Asignaciones',
+    component: SubjectAssignments,
+    icon: UserCheck,
+    permissions: [PERMISSIONS.ASSIGNMENTS_MANAGE],
+  },
+  {
+    path: '/academic-periods',
+    title: 'Períodos',
+    component: AcademicPeriods,
+    icon: CalendarDays,
+    permissions: [PERMISSIONS.PERIODS_MANAGE],
+  },
+  {
+    path: '/enrollments',
+    title: 'Inscripciones',
+    component: Enrollments,
+    icon: UserPlus,
+    permissions: [PERMISSIONS.ENROLLMENTS_MANAGE],
+  },
+  {
+    path: '/grades',
+    title: 'Calificaciones',
+    component: Grades,
+    icon: ClipboardList,
+    permissions: [PERMISSIONS.GRADES_READ],
+  },
+  {
+    path: '/attendance',
+    title: 'Asistencia',
+    component: Attendance,
+    icon: Calendar,
+    permissions: [PERMISSIONS.ATTENDANCE_READ],
+  },
+  {
+    path: '/my-grades',
+    title: 'Mis notas',
+    component: MyGrades,
+    icon: Award,
+    permissions: [PERMISSIONS.GRADES_READ_OWN],
+  },
+  {
+    path: '/my-attendance',
+    title: 'Mi asistencia',
+    component: MyAttendance,
+    icon: CalendarCheck,
+    permissions: [PERMISSIONS.ATTENDANCE_READ_OWN],
+  },
+  {
+    path: '/users',
+    title: 'Usuarios',
+    component: Users,
+    icon: UserCog,
+    permissions: [PERMISSIONS.USERS_MANAGE],
+  },
+  {
+    path: '/roles',
+    title: 'Roles',
+    component: Roles,
+    icon: Shield,
+    permissions: [PERMISSIONS.ROLES_MANAGE],
+  },
+  {
+    path: '/security',
+    title: 'Seguridad',
+    component: TwoFactorSettings,
+  },
+];
+
+export const findRoute = (pathname: string): AppRoute | undefined =>
+  [...protectedRoutes, ...publicRoutes].find((route) => matchPath(route.path, pathname));
+
+export interface Breadcrumb {
+  title: string;
+  path: string;
+}
+
+export const getBreadcrumbs = (pathname: string): Breadcrumb[] => {
+  const home = protectedRoutes.find((route) => route.path === HOME_PATH)!;
+  const current = findRoute(pathname);
+
+  if (!current || current === home) {
+    return [{ title: home.title, path: home.path }];
+  }
+
+  return [
+    { title: home.title, path: home.path },
+    { title: current.title, path: pathname },
+  ];
+};
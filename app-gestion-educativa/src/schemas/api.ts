@@ -0,0 +1,343 @@
+import * as z from 'zod';
+import type {
+  AcademicPeriod,
+  Attendance,
+  BulkRowResult,
+  BulkUpsertResult,
+  Course,
+  CourseEnrollment,
+  CourseGroup,
+  Grade,
+  GradeComponent,
+  GradePeriod,
+  Level,
+  LevelEnrollment,
+  PagedResponse,
+  Professor,
+  Role,
+  Student,
+  Subject,
+  SubjectAssignmentResponse,
+  SubjectEnrollment,
+  User,
+} from '../types';
+import type { ClassSession } from '../services/classSessionService';
+
+// Response schemas of the backend entities. Each shape lists exactly the keys
+// of its interface in types/index.ts (checked through `satisfies`), so the two
+// cannot drift apart silently. Objects are loose: extra fields sent by a newer
+// backend are allowed, missing or mistyped ones are reported.
+//
+// Optional fields accept null as well, since the backend serializes empty
+// values as null.
+
+type Shape<T> = Record<keyof T, z.ZodType>;
+
+const timestamps = {
+  createdAt: z.string().nullish(),
+  updatedAt: z.string().nullish(),
+};
+
+const studentShape = {
+  id: z.number(),
+  identificationType: z.string(),
+  identificationNumber: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  fullName: z.string().nullish(),
+  email: z.string(),
+  phone: z.string().nullish(),
+  mobile: z.string().nullish(),
+  address: z.string().nullish(),
+  dateOfBirth: z.string(),
+  enrollmentDate: z.string(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<Student>;
+export const studentSchema = z.looseObject(studentShape);
+
+const professorShape = {
+  id: z.number(),
+  identificationType: z.string(),
+  identificationNumber: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  fullName: z.string().nullish(),
+  email: z.string(),
+  phone: z.string().nullish(),
+  mobile: z.string().nullish(),
+  address: z.string().nullish(),
+  dateOfBirth: z.string().nullish(),
+  hireDate: z.string(),
+  specialization: z.string().nullish(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<Professor>;
+export const professorSchema = z.looseObject(professorShape);
+
+const courseShape = {
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  totalLevels: z.number(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<Course>;
+export const courseSchema = z.looseObject(courseShape);
+
+const levelShape = {
+  id: z.number(),
+  courseId: z.number(),
+  courseName: z.string().nullish(),
+  levelNumber: z.number(),
+  name: z.string(),
+  description: z.string().nullish(),
+  ...timestamps,
+} satisfies Shape<Level>;
+export const levelSchema = z.looseObject(levelShape);
+
+const subjectShape = {
+  id: z.number(),
+  levelId: z.number(),
+  levelName: z.string().nullish(),
+  code: z.string(),
+  name: z.string(),
+  description: z.string().nullish(),
+  credits: z.number().nullish(),
+  hoursPerWeek: z.number(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<Subject>;
+export const subjectSchema = z.looseObject(subjectShape);
+
+const academicPeriodShape = {
+  id: z.number(),
+  name: z.string(),
+  startDate: z.string(),
+  endDate: z.string(),
+  year: z.number(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<AcademicPeriod>;
+export const academicPeriodSchema = z.looseObject(academicPeriodShape);
+
+const gradeShape = {
+  id: z.number(),
+  subjectEnrollmentId: z.number(),
+  enrollmentId: z.number().nullish(),
+  subjectId: z.number().nullish(),
+  gradePeriodId: z.number(),
+  gradePeriod: z.number().nullish(),
+  gradeComponentId: z.number(),
+  gradeComponent: z.string().nullish(),
+  gradeMoment: z.number().nullish(),
+  gradeValue: z.number(),
+  assignmentDate: z.string(),
+  comments: z.string().nullish(),
+  ...timestamps,
+} satisfies Shape<Grade>;
+export const gradeSchema = z.looseObject(gradeShape);
+
+const gradePeriodShape = {
+  id: z.number(),
+  name: z.string(),
+  periodNumber: z.number(),
+  description: z.string().nullish(),
+} satisfies Shape<GradePeriod>;
+export const gradePeriodSchema = z.looseObject(gradePeriodShape);
+
+const gradeComponentShape = {
+  id: z.number(),
+  code: z.string(),
+  name: z.string(),
+  weightPercentage: z.number(),
+} satisfies Shape<GradeComponent>;
+export const gradeComponentSchema = z.looseObject(gradeComponentShape);
+
+const attendanceStatus = z.enum(['PRESENTE', 'AUSENTE', 'TARDANZA', 'EXCUSADO']);
+
+const attendanceShape = {
+  id: z.number(),
+  subjectEnrollmentId: z.number(),
+  classSessionId: z.number(),
+  status: attendanceStatus,
+  assignmentDate: z.string(),
+  isExcused: z.boolean(),
+  excuseReason: z.string().nullish(),
+  notes: z.string().nullish(),
+  ...timestamps,
+} satisfies Shape<Attendance>;
+export const attendanceSchema = z.looseObject(attendanceShape);
+
+const roleShape = {
+  id: z.number(),
+  name: z.string(),
+  description: z.string().nullish(),
+  enabled: z.boolean(),
+  permissions: z.array(z.string()).nullish(),
+  userCount: z.number().nullish(),
+  ...timestamps,
+} satisfies Shape<Role>;
+export const roleSchema = z.looseObject(roleShape);
+
+const userShape = {
+  id: z.number(),
+  username: z.string(),
+  email: z.string(),
+  isActive: z.boolean(),
+  studentId: z.number().nullish(),
+  professorId: z.number().nullish(),
+  roles: z.array(roleSchema).nullish(),
+  ...timestamps,
+} satisfies Shape<User>;
+export const userSchema = z.looseObject(userShape);
+
+const enrollmentProgress = z.enum(['EN_CURSO', 'APROBADO', 'REPROBADO', 'RETIRADO']);
+
+const courseEnrollmentShape = {
+  id: z.number(),
+  studentId: z.number(),
+  studentName: z.string().nullish(),
+  courseId: z.number(),
+  courseName: z.string().nullish(),
+  academicPeriodId: z.number(),
+  academicPeriodName: z.string().nullish(),
+  groupId: z.number().nullish(),
+  enrollmentDate: z.string(),
+  enrollmentStatus: z.enum(['ACTIVO', 'EGRESADO', 'RETIRADO', 'INACTIVO']),
+  completionDate: z.string().nullish(),
+  notes: z.string().nullish(),
+  ...timestamps,
+} satisfies Shape<CourseEnrollment>;
+export const courseEnrollmentSchema = z.looseObject(courseEnrollmentShape);
+
+const levelEnrollmentShape = {
+  id: z.number(),
+  courseEnrollmentId: z.number(),
+  studentName: z.string().nullish(),
+  levelId: z.number(),
+  levelName: z.string().nullish(),
+  academicPeriodId: z.number(),
+  groupId: z.number().nullish(),
+  groupCode: z.string().nullish(),
+  enrollmentDate: z.string(),
+  status: enrollmentProgress,
+  finalAverage: z.number().nullish(),
+  completionDate: z.string().nullish(),
+  ...timestamps,
+} satisfies Shape<LevelEnrollment>;
+export const levelEnrollmentSchema = z.looseObject(levelEnrollmentShape);
+
+const subjectEnrollmentShape = {
+  id: z.number(),
+  levelEnrollmentId: z.number(),
+  studentName: z.string(),
+  subjectId: z.number(),
+  subjectName: z.string(),
+  subjectCode: z.string().nullish(),
+  subjectAssignmentId: z.number().nullish(),
+  professorName: z.string().nullish(),
+  schedule: z.string().nullish(),
+  classroom: z.string().nullish(),
+  enrollmentDate: z.string(),
+  status: enrollmentProgress,
+  finalGrade: z.number().nullish(),
+  ...timestamps,
+} satisfies Shape<SubjectEnrollment>;
+export const subjectEnrollmentSchema = z.looseObject(subjectEnrollmentShape);
+
+const courseGroupShape = {
+  id: z.number(),
+  courseId: z.number(),
+  courseName: z.string().nullish(),
+  levelId: z.number(),
+  levelName: z.string().nullish(),
+  academicPeriodId: z.number(),
+  academicPeriodName: z.string().nullish(),
+  groupCode: z.string(),
+  groupName: z.string().nullish(),
+  maxStudents: z.number(),
+  currentStudents: z.number().nullish(),
+  scheduleShift: z.string().nullish(),
+  description: z.string().nullish(),
+  isActive: z.boolean(),
+  ...timestamps,
+} satisfies Shape<CourseGroup>;
+export const courseGroupSchema = z.looseObject(courseGroupShape);
+
+const subjectAssignmentShape = {
+  id: z.number(),
+  subjectId: z.number(),
+  subjectName: z.string(),
+  subjectCode: z.string(),
+  levelId: z.number().nullish(),
+  levelName: z.string().nullish(),
+  professorId: z.number(),
+  professorFirstName: z.string(),
+  professorLastName: z.string(),
+  professorFullName: z.string(),
+  professorEmail: z.string(),
+  academicPeriodId: z.number(),
+  academicPeriodName: z.string(),
+  academicPeriodStartDate: z.string(),
+  academicPeriodEndDate: z.string(),
+  groupId: z.number().nullable(),
+  groupName: z.string().nullable(),
+  schedule: z.string().nullable(),
+  classroom: z.string().nullable(),
+  maxStudents: z.number().nullable(),
+  isActive: z.boolean(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+} satisfies Shape<SubjectAssignmentResponse>;
+export const subjectAssignmentSchema = z.looseObject(subjectAssignmentShape);
+
+const classSessionShape = {
+  id: z.number(),
+  subjectAssignmentId: z.number(),
+  subjectAssignmentName: z.string().nullish(),
+  sessionDate: z.string(),
+  sessionTime: z.string(),
+  durationMinutes: z.number(),
+  topic: z.string().nullish(),
+  description: z.string().nullish(),
+  status: z.enum(['PROGRAMADA', 'REALIZADA', 'CANCELADA', 'REPROGRAMADA']),
+  ...timestamps,
+} satisfies Shape<ClassSession>;
+export const classSessionSchema = z.looseObject(classSessionShape);
+
+// `data` of the paged endpoints, for any item schema
+export const pagedResponseSchema = (item: z.ZodType) =>
+  z.looseObject({
+    content: z.array(item),
+    page: z.number(),
+    size: z.number(),
+    totalElements: z.number(),
+    totalPages: z.number(),
+    first: z.boolean(),
+    last: z.boolean(),
+    empty: z.boolean(),
+    sort: z.looseObject({
+      sorted: z.boolean(),
+      sortBy: z.string(),
+      direction: z.enum(['ASC', 'DESC']),
+    }),
+  } satisfies Shape<PagedResponse<unknown>>);
+
+// `data` of the bulk upsert endpoints, for any item schema
+export const bulkUpsertResultSchema = (item: z.ZodType) =>
+  z.looseObject({
+    results: z.array(
+      z.looseObject({
+        index: z.number(),
+        success: z.boolean(),
+        operation: z.enum(['CREATED', 'UPDATED']).nullish(),
+        data: item.nullish(),
+        message: z.string().nullish(),
+      } satisfies Shape<BulkRowResult<unknown>>)
+    ),
+    created: z.number(),
+    updated: z.number(),
+    failed: z.number(),
+  } satisfies Shape<BulkUpsertResult<unknown>>);
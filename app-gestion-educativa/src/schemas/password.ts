@@ -0,0 +1,32 @@
+import * as z from 'zod';
+
+const newPasswordShape = {
+  newPassword: z.string().min(6, 'La contraseña debe tener al menos 6 caracteres'),
+  confirmPassword: z.string(),
+};
+
+const passwordsMatch = (data: { newPassword: string; confirmPassword: string }) =>
+  data.newPassword === data.confirmPassword;
+
+const passwordsMismatch = {
+  message: 'Las contraseñas no coinciden',
+  path: ['confirmPassword'],
+};
+
+// Admin reset: only the new password is required
+export const passwordChangeSchema = z.object(newPasswordShape).refine(passwordsMatch, passwordsMismatch);
+
+// Self-service: the user must confirm their current password
+export const selfPasswordChangeSchema = z
+  .object({
+    currentPassword: z.string().min(1, 'La contraseña actual es requerida'),
+    ...newPasswordShape,
+  })
+  .refine(passwordsMatch, passwordsMismatch)
+  .refine(data => data.currentPassword !== data.newPassword, {
+    message: 'La nueva contraseña debe ser diferente a la actual',
+    path: ['newPassword'],
+  });
+
+export type PasswordChangeFormData = z.infer<typeof passwordChangeSchema>;
+export type SelfPasswordChangeFormData = z.infer<typeof selfPasswordChangeSchema>;
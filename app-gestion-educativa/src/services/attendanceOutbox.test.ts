@@ -0,0 +1,138 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { attendanceOutbox } from './attendanceOutbox';
+import type { NewAttendanceSheet } from './attendanceOutbox';
+import { attendanceService } from './gradeService';
+import classSessionService from './classSessionService';
+import type { ClassSession } from './classSessionService';
+import type { Attendance, BulkUpsertResult } from '../types';
+
+// In-memory stand-in for the IndexedDB store
+const records = vi.hoisted(() => new Map<number, { id?: number }>());
+
+vi.mock('../utils/indexedDb', () => ({
+  offlineStore: () => ({
+    getAll: async () => [...records.values()].map((record) => ({ ...record })),
+    add: async (record: object) => {
+      const id = Math.max(0, ...records.keys()) + 1;
+      records.set(id, { ...record, id });
+      return id;
+    },
+    put: async (record: { id: number }) => {
+      records.set(record.id, { ...record });
+    },
+    delete: async (id: number) => {
+      records.delete(id);
+    },
+  }),
+}));
+vi.mock('./authService', () => ({ authService: { getStoredUser: () => ({ userId: 7 }) } }));
+vi.mock('./classSessionService', () => ({ default: { findOrCreate: vi.fn() } }));
+vi.mock('./gradeService', () => ({ attendanceService: { getBySession: vi.fn(), bulkUpsert: vi.fn() } }));
+
+const SESSION_ID = 40;
+
+const serverRecord = (status: Attendance['status'], updatedAt: string): Attendance => ({
+  id: 1,
+  subjectEnrollmentId: 101,
+  classSessionId: SESSION_ID,
+  status,
+  assignmentDate: '2026-03-02',
+  isExcused: false,
+  updatedAt,
+});
+
+// Ana was marked present by someone else at 09:00 when the teacher took the list
+const sheet = (status: Attendance['status']): NewAttendanceSheet => ({
+  subjectAssignmentId: 5,
+  sessionDate: '2026-03-02',
+  label: 'Grupo 1 - Matemáticas',
+  rows: [{ subjectEnrollmentId: 101, studentName: 'Ana Gómez', status }],
+  baseline: { 101: { status: 'PRESENTE', updatedAt: '2026-03-02T09:00:00' } },
+});
+
+const serverHas = (...attendance: Attendance[]) => {
+  vi.mocked(attendanceService.getBySession).mockResolvedValue(attendance);
+};
+
+describe('attendanceOutbox', () => {
+  beforeEach(() => {
+    vi.mocked(classSessionService.findOrCreate).mockResolvedValue({ id: SESSION_ID } as ClassSession);
+    vi.mocked(attendanceService.bulkUpsert).mockImplementation(
+      async (rows) => ({ results: rows.map((_, index) => ({ index, success: true })) }) as BulkUpsertResult<Attendance>
+    );
+  });
+
+  afterEach(async () => {
+    await attendanceOutbox.sync();
+    records.clear();
+    vi.clearAllMocks();
+  });
+
+  it('overwrites a record the teacher had already seen', async () => {
+    serverHas(serverRecord('PRESENTE', '2026-03-02T09:00:00'));
+
+    await attendanceOutbox.enqueue(sheet('AUSENTE'));
+    await attendanceOutbox.sync();
+
+    expect(attendanceService.bulkUpsert).toHaveBeenCalledWith([
+      expect.objectContaining({ subjectEnrollmentId: 101, classSessionId: SESSION_ID, status: 'AUSENTE' }),
+    ]);
+    expect(attendanceOutbox.getSnapshot().sheets).toEqual([]);
+  });
+
+  it('holds a sheet back when the server record changed after it was captured', async () => {
+    serverHas(serverRecord('TARDANZA', '2026-03-02T10:30:00'));
+
+    await attendanceOutbox.enqueue(sheet('AUSENTE'));
+    await attendanceOutbox.sync();
+
+    expect(attendanceService.bulkUpsert).not.toHaveBeenCalled();
+    const [held] = attendanceOutbox.getSnapshot().sheets;
+    expect(held.state).toBe('CONFLICT');
+    expect(held.conflicts).toEqual([
+      {
+        subjectEnrollmentId: 101,
+        studentName: 'Ana Gómez',
+        localStatus: 'AUSENTE',
+        serverStatus: 'TARDANZA',
+        serverUpdatedAt: '2026-03-02T10:30:00',
+      },
+    ]);
+  });
+
+  it('does not report a conflict when both sides agree', async () => {
+    serverHas(serverRecord('AUSENTE', '2026-03-02T10:30:00'));
+
+    await attendanceOutbox.enqueue(sheet('AUSENTE'));
+    await attendanceOutbox.sync();
+
+    expect(attendanceService.bulkUpsert).toHaveBeenCalledTimes(1);
+    expect(attendanceOutbox.getSnapshot().sheets).toEqual([]);
+  });
+
+  it('sends the offline mark once the conflict is settled in its favour', async () => {
+    serverHas(serverRecord('TARDANZA', '2026-03-02T10:30:00'));
+    await attendanceOutbox.enqueue(sheet('AUSENTE'));
+    await attendanceOutbox.sync();
+
+    const [held] = attendanceOutbox.getSnapshot().sheets;
+    await attendanceOutbox.resolveConflict(held.id, 101, 'local');
+    await attendanceOutbox.sync();
+
+    expect(attendanceService.bulkUpsert).toHaveBeenCalledWith([expect.objectContaining({ status: 'AUSENTE' })]);
+    expect(attendanceOutbox.getSnapshot().sheets).toEqual([]);
+  });
+
+  it('drops the sheet when the server mark is kept for its only student', async () => {
+    serverHas(serverRecord('TARDANZA', '2026-03-02T10:30:00'));
+    await attendanceOutbox.enqueue(sheet('AUSENTE'));
+    await attendanceOutbox.sync();
+
+    const [held] = attendanceOutbox.getSnapshot().sheets;
+    await attendanceOutbox.resolveConflict(held.id, 101, 'server');
+
+    expect(attendanceService.bulkUpsert).not.toHaveBeenCalled();
+    expect(attendanceOutbox.getSnapshot().sheets).toEqual([]);
+  });
+});
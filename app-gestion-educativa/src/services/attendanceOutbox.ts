@@ -0,0 +1,310 @@
+import { attendanceService } from './gradeService';
+import classSessionService from './classSessionService';
+import { authService } from './authService';
+import { getApiErrorMessage, isNetworkError } from '../api/errors';
+import { connectivity } from '../utils/connectivity';
+import { offlineStore } from '../utils/indexedDb';
+import { tenants } from '../utils/tenant';
+import type { Attendance } from '../types';
+
+type AttendanceStatus = Attendance['status'];
+
+// One student's mark in a sheet captured offline
+export interface OutboxAttendanceRow {
+  subjectEnrollmentId: number;
+  studentName: string;
+  status: AttendanceStatus;
+}
+
+// Server record of a student as the teacher saw it when capturing the sheet
+export interface AttendanceBaseline {
+  status: AttendanceStatus;
+  updatedAt?: string;
+}
+
+// Student whose attendance was changed on the server after the sheet was captured
+export interface AttendanceConflict {
+  subjectEnrollmentId: number;
+  studentName: string;
+  localStatus: AttendanceStatus;
+  serverStatus: AttendanceStatus;
+  serverUpdatedAt?: string;
+}
+
+/**
+ * Attendance of one class session waiting to be sent. Sheets are replayed in
+ * id order; a sheet in conflict or failed holds back the later sheets of the
+ * same session until it is resolved, retried or discarded.
+ */
+export interface PendingAttendanceSheet {
+  id: number;
+  /** Campus the sheet was taken at, it is only replayed against that backend */
+  tenantId: string;
+  userId: number;
+  subjectAssignmentId: number;
+  sessionDate: string;
+  /** Group and subject, for display */
+  label: string;
+  rows: OutboxAttendanceRow[];
+  /** Server records by subject enrollment id at capture time */
+  baseline: Record<number, AttendanceBaseline>;
+  state: 'PENDING' | 'CONFLICT' | 'FAILED';
+  conflicts: AttendanceConflict[];
+  error?: string;
+  capturedAt: string;
+}
+
+export type NewAttendanceSheet = Pick<
+  PendingAttendanceSheet,
+  'subjectAssignmentId' | 'sessionDate' | 'label' | 'rows' | 'baseline'
+>;
+
+export interface OutboxSnapshot {
+  sheets: PendingAttendanceSheet[];
+  isSyncing: boolean;
+}
+
+type ReplayOutcome = 'synced' | 'blocked' | 'offline';
+
+const store = offlineStore<PendingAttendanceSheet>('attendanceOutbox');
+const listeners = new Set<() => void>();
+
+let snapshot: OutboxSnapshot = { sheets: [], isSyncing: false };
+let running: Promise<void> | null = null;
+
+const update = (changes: Partial<OutboxSnapshot>) => {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+const isSameSession = (a: NewAttendanceSheet, b: NewAttendanceSheet) =>
+  a.subjectAssignmentId === b.subjectAssignmentId && a.sessionDate === b.sessionDate;
+
+// Only the signed-in user's sheets of the selected campus are shown and replayed
+const reload = async () => {
+  const userId = authService.getStoredUser()?.userId;
+  const tenantId = tenants.current().id;
+  const sheets = await store.getAll();
+  update({
+    sheets: sheets
+      .filter((sheet) => sheet.userId === userId && sheet.tenantId === tenantId)
+      .sort((a, b) => a.id - b.id),
+  });
+};
+
+const findConflicts = (sheet: PendingAttendanceSheet, serverRecords: Attendance[]): AttendanceConflict[] =>
+  sheet.rows.flatMap((row) => {
+    const server = serverRecords.find((record) => record.subjectEnrollmentId === row.subjectEnrollmentId);
+    if (!server || server.status === row.status) return [];
+
+    // A record the teacher had already seen is simply overwritten
+    const seen = sheet.baseline[row.subjectEnrollmentId];
+    if (seen && seen.status === server.status && seen.updatedAt === server.updatedAt) return [];
+
+    return [
+      {
+        subjectEnrollmentId: row.subjectEnrollmentId,
+        studentName: row.studentName,
+        localStatus: row.status,
+        serverStatus: server.status,
+        serverUpdatedAt: server.updatedAt,
+      },
+    ];
+  });
+
+const replaySheet = async (sheet: PendingAttendanceSheet): Promise<ReplayOutcome> => {
+  try {
+    const session = await classSessionService.findOrCreate({
+      subjectAssignmentId: sheet.subjectAssignmentId,
+      sessionDate: sheet.sessionDate,
+      sessionTime: '08:00:00', // Default time, as when saving online
+      durationMinutes: 120,
+      status: 'REALIZADA',
+    });
+
+    const conflicts = findConflicts(sheet, await attendanceService.getBySession(session.id));
+    if (conflicts.length > 0) {
+      await store.put({ ...sheet, state: 'CONFLICT', conflicts });
+      return 'blocked';
+    }
+
+    const result = await attendanceService.bulkUpsert(
+      sheet.rows.map((row) => ({
+        subjectEnrollmentId: row.subjectEnrollmentId,
+        classSessionId: session.id,
+        assignmentDate: sheet.sessionDate,
+        status: row.status,
+        isExcused: row.status === 'EXCUSADO',
+      }))
+    );
+
+    const failed = result.results.filter((row) => !row.success);
+    if (failed.length > 0) {
+      // Keep only the rejected rows so a retry does not resend the saved ones
+      const failedIds = failed.map((row) => sheet.rows[row.index]?.subjectEnrollmentId);
+      await store.put({
+        ...sheet,
+        rows: sheet.rows.filter((row) => failedIds.includes(row.subjectEnrollmentId)),
+        state: 'FAILED',
+        error: failed[0].message || 'El servidor rechazó parte de la asistencia',
+      });
+      return 'blocked';
+    }
+
+    await store.delete(sheet.id);
+    return 'synced';
+  } catch (error) {
+    if (isNetworkError(error)) return 'offline';
+    await store.put({
+      ...sheet,
+      state: 'FAILED',
+      error: getApiErrorMessage(error, 'No se pudo sincronizar la asistencia'),
+    });
+    return 'blocked';
+  }
+};
+
+const replay = async () => {
+  await reload();
+  if (!connectivity.isOnline() || !snapshot.sheets.some((sheet) => sheet.state === 'PENDING')) return;
+
+  update({ isSyncing: true });
+  try {
+    const heldBack: PendingAttendanceSheet[] = [];
+    for (const sheet of snapshot.sheets) {
+      if (sheet.state !== 'PENDING' || heldBack.some((held) => isSameSession(held, sheet))) {
+        heldBack.push(sheet);
+        continue;
+      }
+      const outcome = await replaySheet(sheet);
+      // Stop at the first sheet that could not be sent to keep the order
+      if (outcome === 'offline') break;
+      if (outcome === 'blocked') heldBack.push(sheet);
+    }
+  } finally {
+    await reload();
+    update({ isSyncing: false });
+  }
+};
+
+const saveAndSync = async (sheet: PendingAttendanceSheet) => {
+  await store.put(sheet);
+  await reload();
+  void attendanceOutbox.sync();
+};
+
+export const attendanceOutbox = {
+  getSnapshot(): OutboxSnapshot {
+    return snapshot;
+  },
+
+  /**
+   * Listen for outbox changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Store a sheet until it can be sent. A sheet still pending for the same
+   * session is updated instead, keeping its place in the queue and the
+   * baseline it was captured against.
+   */
+  async enqueue(sheet: NewAttendanceSheet): Promise<void> {
+    const userId = authService.getStoredUser()?.userId;
+    if (!userId) throw new Error('No hay una sesión activa');
+
+    await reload();
+    const pending = snapshot.sheets.find((item) => item.state === 'PENDING' && isSameSession(item, sheet));
+
+    if (pending) {
+      const rows = pending.rows
+        .filter((row) => !sheet.rows.some((newRow) => newRow.subjectEnrollmentId === row.subjectEnrollmentId))
+        .concat(sheet.rows);
+      await store.put({ ...pending, rows, label: sheet.label });
+    } else {
+      await store.add({
+        ...sheet,
+        tenantId: tenants.current().id,
+        userId,
+        state: 'PENDING',
+        conflicts: [],
+        capturedAt: new Date().toISOString(),
+      });
+    }
+    await reload();
+  },
+
+  /**
+   * Send the pending sheets in order. Concurrent calls share the same run.
+   */
+  sync(): Promise<void> {
+    if (!running) {
+      running = replay()
+        .catch((error) => console.error('Error syncing attendance outbox:', error))
+        .finally(() => {
+          running = null;
+        });
+    }
+    return running;
+  },
+
+  /**
+   * Settle one conflict: keep the mark taken offline or the one on the server.
+   * The sheet is queued again once all its conflicts are settled.
+   */
+  async resolveConflict(sheetId: number, subjectEnrollmentId: number, keep: 'local' | 'server'): Promise<void> {
+    const sheet = snapshot.sheets.find((item) => item.id === sheetId);
+    const conflict = sheet?.conflicts.find((item) => item.subjectEnrollmentId === subjectEnrollmentId);
+    if (!sheet || !conflict) return;
+
+    const conflicts = sheet.conflicts.filter((item) => item !== conflict);
+    const rows =
+      keep === 'server' ? sheet.rows.filter((row) => row.subjectEnrollmentId !== subjectEnrollmentId) : sheet.rows;
+
+    if (rows.length === 0) {
+      await store.delete(sheet.id);
+      await reload();
+      return;
+    }
+
+    await saveAndSync({
+      ...sheet,
+      rows,
+      // The server value is now known, so it no longer conflicts
+      baseline: {
+        ...sheet.baseline,
+        [subjectEnrollmentId]: { status: conflict.serverStatus, updatedAt: conflict.serverUpdatedAt },
+      },
+      conflicts,
+      state: conflicts.length > 0 ? 'CONFLICT' : 'PENDING',
+    });
+  },
+
+  async retry(sheetId: number): Promise<void> {
+    const sheet = snapshot.sheets.find((item) => item.id === sheetId);
+    if (sheet) await saveAndSync({ ...sheet, state: 'PENDING', error: undefined });
+  },
+
+  async discard(sheetId: number): Promise<void> {
+    await store.delete(sheetId);
+    await reload();
+    void attendanceOutbox.sync();
+  },
+};
+
+// Another campus has its own user and sheets
+tenants.subscribe(() => {
+  void attendanceOutbox.sync();
+});
+
+// Replay as soon as the connection comes back
+let wasOnline = connectivity.isOnline();
+connectivity.subscribe(() => {
+  const isOnline = connectivity.isOnline();
+  if (isOnline && !wasOnline) {
+    void attendanceOutbox.sync();
+  }
+  wasOnline = isOnline;
+});
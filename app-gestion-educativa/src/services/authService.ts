@@ -1,45 +1,135 @@
-import api from '../api/axios';
-import type { ApiResponse, LoginRequest, LoginResponse, RegisterRequest, TokenValidationResponse } from '../types';
-import { AUTH_TOKEN_KEY, AUTH_USER_KEY, TOKEN_EXPIRATION_KEY } from '../constants';
+import api, { refreshAccessToken } from '../api/axios';
+import type {
+  ApiResponse,
+  AuthUser,
+  ChangePasswordRequest,
+  ForgotPasswordRequest,
+  ImpersonatorSession,
+  LoginRequest,
+  LoginResponse,
+  LoginResult,
+  PasswordResetTokenResponse,
+  RegisterRequest,
+  ResetPasswordRequest,
+  TokenValidationResponse,
+  TwoFactorChallenge,
+  TwoFactorCodeRequest,
+  TwoFactorRecoveryCodesResponse,
+  TwoFactorSetupResponse,
+  TwoFactorStatusResponse,
+  TwoFactorVerifyRequest,
+} from '../types';
+import { AUTH_TOKEN_KEY, AUTH_USER_KEY, TOKEN_EXPIRATION_KEY, IMPERSONATOR_SESSION_KEY } from '../constants';
+import { sessionSync } from '../utils/sessionSync';
+import { tokenStorage } from '../utils/tokenStorage';
+import { tenants } from '../utils/tenant';
+import { clearQueryCache } from './queryCache';
+
+export const isTwoFactorChallenge = (result: LoginResult): result is TwoFactorChallenge =>
+  'twoFactorRequired' in result && result.twoFactorRequired === true;
 
 export const authService = {
-  async login(credentials: LoginRequest): Promise<LoginResponse> {
-    const response = await api.post<ApiResponse<LoginResponse>>('/auth/login', credentials);
+  async login(credentials: LoginRequest, rememberMe = true): Promise<LoginResult> {
+    const response = await api.post<ApiResponse<LoginResult>>('/auth/login', credentials);
     
     if (response.data.success && response.data.data) {
-      const { token, expiresIn, ...userData } = response.data.data;
-      
-      // Store token and user data
-      localStorage.setItem(AUTH_TOKEN_KEY, token);
-      localStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
-      
-      // Calculate and store expiration time
-      const expirationTime = Date.now() + expiresIn;
-      localStorage.setItem(TOKEN_EXPIRATION_KEY, expirationTime.toString());
+      // Accounts with 2FA get a challenge instead of a session
+      if (isTwoFactorChallenge(response.data.data)) {
+        return response.data.data;
+      }
       
-      return response.data.data;
+      return this.storeSession(response.data.data, rememberMe);
     }
     
     throw new Error(response.data.message || 'Login failed');
   },
 
-  async register(data: RegisterRequest): Promise<LoginResponse> {
-    const response = await api.post<ApiResponse<LoginResponse>>('/auth/register', data);
+  async verifyTwoFactor(data: TwoFactorVerifyRequest, rememberMe = true): Promise<LoginResponse> {
+    const response = await api.post<ApiResponse<LoginResponse>>('/auth/2fa/verify', data);
     
     if (response.data.success && response.data.data) {
-      const { token, expiresIn, ...userData } = response.data.data;
-      
-      // Store token and user data
-      localStorage.setItem(AUTH_TOKEN_KEY, token);
-      localStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
-      
-      // Calculate and store expiration time
-      const expirationTime = Date.now() + expiresIn;
-      localStorage.setItem(TOKEN_EXPIRATION_KEY, expirationTime.toString());
-      
+      return this.storeSession(response.data.data, rememberMe);
+    }
+    
+    throw new Error(response.data.message || 'Two-factor verification failed');
+  },
+
+  storeSession(session: LoginResponse, rememberMe: boolean): LoginResponse {
+    const { token, expiresIn, ...userData } = session;
+    
+    // "Remember me" keeps the session across browser restarts, otherwise it dies with the tab
+    tokenStorage.use(rememberMe ? 'local' : 'session');
+    
+    // Store token and user data
+    tokenStorage.setItem(AUTH_TOKEN_KEY, token);
+    tokenStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
+    
+    // Calculate and store expiration time
+    const expirationTime = Date.now() + expiresIn;
+    tokenStorage.setItem(TOKEN_EXPIRATION_KEY, expirationTime.toString());
+    
+    // Cached lists may belong to the previous user
+    clearQueryCache();
+    sessionSync.broadcast({ type: 'login', userId: userData.userId });
+    
+    return session;
+  },
+
+  async getTwoFactorStatus(): Promise<TwoFactorStatusResponse> {
+    const response = await api.get<ApiResponse<TwoFactorStatusResponse>>('/auth/2fa/status');
+    
+    if (response.data.data) {
       return response.data.data;
     }
     
+    throw new Error(response.data.message || 'Could not load two-factor status');
+  },
+
+  async setupTwoFactor(): Promise<TwoFactorSetupResponse> {
+    const response = await api.post<ApiResponse<TwoFactorSetupResponse>>('/auth/2fa/setup');
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data;
+    }
+    
+    throw new Error(response.data.message || 'Two-factor setup failed');
+  },
+
+  async enableTwoFactor(data: TwoFactorCodeRequest): Promise<string[]> {
+    const response = await api.post<ApiResponse<TwoFactorRecoveryCodesResponse>>('/auth/2fa/enable', data);
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.recoveryCodes;
+    }
+    
+    throw new Error(response.data.message || 'Two-factor activation failed');
+  },
+
+  async disableTwoFactor(data: TwoFactorCodeRequest): Promise<void> {
+    const response = await api.post<ApiResponse<void>>('/auth/2fa/disable', data);
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Two-factor deactivation failed');
+    }
+  },
+
+  async regenerateRecoveryCodes(data: TwoFactorCodeRequest): Promise<string[]> {
+    const response = await api.post<ApiResponse<TwoFactorRecoveryCodesResponse>>('/auth/2fa/recovery-codes', data);
+    
+    if (response.data.success && response.data.data) {
+      return response.data.data.recoveryCodes;
+    }
+    
+    throw new Error(response.data.message || 'Recovery code generation failed');
+  },
+
+  async register(data: RegisterRequest, rememberMe = true): Promise<LoginResponse> {
+    const response = await api.post<ApiResponse<LoginResponse>>('/auth/register', data);
+    
+    if (response.data.success && response.data.data) {
+      return this.storeSession(response.data.data, rememberMe);
+    }
+    
     throw new Error(response.data.message || 'Registration failed');
   },
 
@@ -56,47 +146,141 @@ export const authService = {
     throw new Error('Token validation failed');
   },
 
-  async refreshToken(): Promise<LoginResponse> {
-    const token = localStorage.getItem(AUTH_TOKEN_KEY);
-    if (!token) {
-      throw new Error('No token found');
+  // Bare request shared with the axios interceptor: a failed refresh never
+  // queues behind itself or gets retried
+  refreshToken(): Promise<LoginResponse> {
+    return refreshAccessToken();
+  },
+
+  async changePassword(data: ChangePasswordRequest): Promise<void> {
+    const response = await api.post<ApiResponse<void>>('/auth/change-password', data);
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Password change failed');
     }
+  },
 
-    const response = await api.post<ApiResponse<LoginResponse>>(
-      '/auth/refresh-token',
-      {},
-      {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      }
+  async requestPasswordReset(data: ForgotPasswordRequest): Promise<void> {
+    const response = await api.post<ApiResponse<void>>('/auth/forgot-password', data);
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Password reset request failed');
+    }
+  },
+
+  async validateResetToken(token: string): Promise<PasswordResetTokenResponse> {
+    const response = await api.get<ApiResponse<PasswordResetTokenResponse>>(
+      `/auth/reset-password/${encodeURIComponent(token)}/validate`
     );
     
+    if (response.data.data) {
+      return response.data.data;
+    }
+    
+    throw new Error(response.data.message || 'Reset token validation failed');
+  },
+
+  async resetPassword(data: ResetPasswordRequest): Promise<void> {
+    const response = await api.post<ApiResponse<void>>('/auth/reset-password', data);
+    
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Password reset failed');
+    }
+  },
+
+  async impersonate(userId: number): Promise<LoginResponse> {
+    const token = tokenStorage.getItem(AUTH_TOKEN_KEY);
+    const user = this.getStoredUser();
+    if (!token || !user) {
+      throw new Error('No token found');
+    }
+    if (this.getImpersonator()) {
+      throw new Error('Already impersonating another user');
+    }
+
+    const response = await api.post<ApiResponse<LoginResponse>>(`/auth/impersonate/${userId}`);
+    
     if (response.data.success && response.data.data) {
-      const { token: newToken, expiresIn, ...userData } = response.data.data;
+      const { token: targetToken, expiresIn, ...userData } = response.data.data;
       
-      // Update stored data
-      localStorage.setItem(AUTH_TOKEN_KEY, newToken);
-      localStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
+      // Keep the administrator session aside so it can be restored later
+      const impersonator: ImpersonatorSession = {
+        token,
+        expiration: tokenStorage.getItem(TOKEN_EXPIRATION_KEY),
+        user,
+      };
+      tokenStorage.setItem(IMPERSONATOR_SESSION_KEY, JSON.stringify(impersonator));
       
-      // Update expiration time
-      const expirationTime = Date.now() + expiresIn;
-      localStorage.setItem(TOKEN_EXPIRATION_KEY, expirationTime.toString());
+      tokenStorage.setItem(AUTH_TOKEN_KEY, targetToken);
+      tokenStorage.setItem(AUTH_USER_KEY, JSON.stringify(userData));
+      tokenStorage.setItem(TOKEN_EXPIRATION_KEY, (Date.now() + expiresIn).toString());
+      
+      clearQueryCache();
+      sessionSync.broadcast({ type: 'login', userId: userData.userId });
       
       return response.data.data;
     }
     
-    throw new Error('Token refresh failed');
+    throw new Error(response.data.message || 'Impersonation failed');
+  },
+
+  stopImpersonation(): AuthUser {
+    const impersonator = this.getImpersonator();
+    if (!impersonator) {
+      throw new Error('Not impersonating');
+    }
+
+    tokenStorage.removeItem(IMPERSONATOR_SESSION_KEY);
+
+    if (impersonator.expiration && Date.now() >= parseInt(impersonator.expiration, 10)) {
+      this.logout();
+      throw new Error('Administrator session expired');
+    }
+
+    tokenStorage.setItem(AUTH_TOKEN_KEY, impersonator.token);
+    tokenStorage.setItem(AUTH_USER_KEY, JSON.stringify(impersonator.user));
+    if (impersonator.expiration) {
+      tokenStorage.setItem(TOKEN_EXPIRATION_KEY, impersonator.expiration);
+    }
+
+    clearQueryCache();
+    sessionSync.broadcast({ type: 'login', userId: impersonator.user.userId });
+
+    return impersonator.user;
+  },
+
+  getImpersonator(): ImpersonatorSession | null {
+    const sessionStr = tokenStorage.getItem(IMPERSONATOR_SESSION_KEY);
+    if (sessionStr) {
+      try {
+        return JSON.parse(sessionStr);
+      } catch {
+        return null;
+      }
+    }
+    return null;
   },
 
   logout(): void {
-    localStorage.removeItem(AUTH_TOKEN_KEY);
-    localStorage.removeItem(AUTH_USER_KEY);
-    localStorage.removeItem(TOKEN_EXPIRATION_KEY);
+    tokenStorage.removeItem(AUTH_TOKEN_KEY);
+    tokenStorage.removeItem(AUTH_USER_KEY);
+    tokenStorage.removeItem(TOKEN_EXPIRATION_KEY);
+    tokenStorage.removeItem(IMPERSONATOR_SESSION_KEY);
+    clearQueryCache();
+    sessionSync.broadcast({ type: 'logout' });
   },
 
-  getStoredUser(): { userId: number; username: string; email: string; roles: string[] } | null {
-    const userStr = localStorage.getItem(AUTH_USER_KEY);
+  /**
+   * Point the app at another campus. The session stored for that campus, if
+   * any, takes over, and the data cached for the previous one is dropped.
+   */
+  switchTenant(tenantId: string): void {
+    tenants.select(tenantId);
+    clearQueryCache();
+  },
+
+  getStoredUser(): AuthUser | null {
+    const userStr = tokenStorage.getItem(AUTH_USER_KEY);
     if (userStr) {
       try {
         return JSON.parse(userStr);
@@ -108,11 +292,19 @@ export const authService = {
   },
 
   getToken(): string | null {
-    return localStorage.getItem(AUTH_TOKEN_KEY);
+    return tokenStorage.getItem(AUTH_TOKEN_KEY);
+  },
+
+  getTokenExpiration(): number | null {
+    const expirationStr = tokenStorage.getItem(TOKEN_EXPIRATION_KEY);
+    if (!expirationStr) return null;
+
+    const expiration = parseInt(expirationStr, 10);
+    return Number.isNaN(expiration) ? null : expiration;
   },
 
   isTokenExpired(): boolean {
-    const expirationStr = localStorage.getItem(TOKEN_EXPIRATION_KEY);
+    const expirationStr = tokenStorage.getItem(TOKEN_EXPIRATION_KEY);
     if (!expirationStr) return true;
     
     const expiration = parseInt(expirationStr, 10);
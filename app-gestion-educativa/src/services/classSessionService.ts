@@ -1,5 +1,6 @@
-import api from '../api/axios';
-import type { ApiResponse } from '../types';
+import { createResourceService } from './resource';
+import type { RequestOptions } from '../types';
+import { classSessionSchema } from '../schemas/api';
 
 export interface ClassSession {
   id: number;
@@ -25,52 +26,29 @@ export interface ClassSessionDTO {
   status?: 'PROGRAMADA' | 'REALIZADA' | 'CANCELADA' | 'REPROGRAMADA';
 }
 
-const classSessionService = {
-  /**
-   * Get all class sessions
-   */
-  getAll: async (): Promise<ClassSession[]> => {
-    const response = await api.get<ApiResponse<ClassSession[]>>('/class-sessions');
-    return response.data.data || [];
-  },
-
-  /**
-   * Get class session by ID
-   */
-  getById: async (id: number): Promise<ClassSession> => {
-    const response = await api.get<ApiResponse<ClassSession>>(`/class-sessions/${id}`);
-    return response.data.data!;
-  },
-
+/**
+ * CRUD (getAll, getById, create, update, delete) comes from the resource factory
+ */
+const classSessionService = createResourceService<ClassSession, ClassSessionDTO>('/class-sessions', classSessionSchema)((r) => ({
   /**
    * Get sessions by subject assignment
    */
-  getByAssignment: async (assignmentId: number): Promise<ClassSession[]> => {
-    const response = await api.get<ApiResponse<ClassSession[]>>(
-      `/class-sessions/by-assignment/${assignmentId}`
-    );
-    return response.data.data || [];
-  },
+  getByAssignment: (assignmentId: number, options?: RequestOptions): Promise<ClassSession[]> =>
+    r.list(`/by-assignment/${assignmentId}`, options),
 
   /**
    * Get sessions by date
    */
-  getByDate: async (date: string): Promise<ClassSession[]> => {
-    const response = await api.get<ApiResponse<ClassSession[]>>(
-      `/class-sessions/by-date?date=${date}`
-    );
-    return response.data.data || [];
-  },
+  getByDate: (date: string, options?: RequestOptions): Promise<ClassSession[]> =>
+    r.list(`/by-date?date=${date}`, options),
 
   /**
    * Search for a specific session by assignment and date
    */
-  search: async (assignmentId: number, date: string): Promise<ClassSession | null> => {
+  search: async (assignmentId: number, date: string, options?: RequestOptions): Promise<ClassSession | null> => {
     try {
-      const response = await api.get<ApiResponse<ClassSession>>(
-        `/class-sessions/search?assignmentId=${assignmentId}&date=${date}`
-      );
-      return response.data.data ?? null;
+      const session = await r.one(`/search?assignmentId=${assignmentId}&date=${date}`, options);
+      return session ?? null;
     } catch (error: unknown) {
       if ((error as { response?: { status?: number } }).response?.status === 404) {
         return null; // Session not found
@@ -79,48 +57,17 @@ const classSessionService = {
     }
   },
 
-  /**
-   * Create a new class session
-   */
-  create: async (dto: ClassSessionDTO): Promise<ClassSession> => {
-    const response = await api.post<ApiResponse<ClassSession>>('/class-sessions', dto);
-    return response.data.data!;
-  },
-
   /**
    * Find existing session or create new one if not found
    * This is the main method to use for attendance workflow
    */
-  findOrCreate: async (dto: ClassSessionDTO): Promise<ClassSession> => {
-    const response = await api.post<ApiResponse<ClassSession>>(
-      '/class-sessions/find-or-create',
-      dto
-    );
-    return response.data.data!;
-  },
-
-  /**
-   * Update a class session
-   */
-  update: async (id: number, dto: ClassSessionDTO): Promise<ClassSession> => {
-    const response = await api.put<ApiResponse<ClassSession>>(`/class-sessions/${id}`, dto);
-    return response.data.data!;
-  },
-
-  /**
-   * Delete a class session
-   */
-  delete: async (id: number): Promise<void> => {
-    await api.delete(`/class-sessions/${id}`);
-  },
+  findOrCreate: (dto: ClassSessionDTO): Promise<ClassSession> =>
+    r.post('/find-or-create', dto),
 
   /**
    * Get count of class sessions
    */
-  count: async (): Promise<number> => {
-    const response = await api.get<ApiResponse<number>>('/class-sessions/count');
-    return response.data.data!;
-  }
-};
+  count: (): Promise<number> => r.count(),
+}));
 
 export default classSessionService;
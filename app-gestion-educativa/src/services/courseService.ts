@@ -1,123 +1,19 @@
-import api from '../api/axios';
-import type { ApiResponse, PagedResponse, PaginationParams, Course, CourseDTO, CourseGroup, CourseGroupDTO } from '../types';
+import { createResourceService } from './resource';
+import type { PaginationParams, Course, CourseDTO, CourseGroup, CourseGroupDTO, RequestOptions } from '../types';
+import { courseGroupSchema, courseSchema } from '../schemas/api';
 
-export const courseService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<Course[]>>('/courses');
-    return response.data.data || [];
-  },
-  
-  getPaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/courses/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<Course>>>(url);
-    return response.data.data!;
-  },
-  
-  getActive: async () => {
-    const response = await api.get<ApiResponse<Course[]>>('/courses/active');
-    return response.data.data || [];
-  },
-  
-  getActivePaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/courses/active/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<Course>>>(url);
-    return response.data.data!;
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<Course>>(`/courses/${id}`);
-    return response.data.data;
-  },
-  
-  getByCode: async (code: string) => {
-    const response = await api.get<ApiResponse<Course>>(`/courses/code/${code}`);
-    return response.data.data;
-  },
-  
-  search: async (query: string) => {
-    const response = await api.get<ApiResponse<Course[]>>(`/courses/search?name=${encodeURIComponent(query)}`);
-    return response.data.data || [];
-  },
-  
-  searchPaged: async (query: string, params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    queryParams.append('name', query);
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/courses/search/paged?${queryParams.toString()}`;
-    const response = await api.get<ApiResponse<PagedResponse<Course>>>(url);
-    return response.data.data!;
-  },
-  
-  create: async (data: CourseDTO) => {
-    const response = await api.post<ApiResponse<Course>>('/courses', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: CourseDTO) => {
-    const response = await api.put<ApiResponse<Course>>(`/courses/${id}`, data);
-    return response.data.data;
-  },
-  
-  deactivate: async (id: number) => {
-    const response = await api.patch<ApiResponse<Course>>(`/courses/${id}/deactivate`);
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/courses/${id}`);
-  },
-  
-  count: async () => {
-    const response = await api.get<ApiResponse<number>>('/courses/count');
-    return response.data.data || 0;
-  },
-};
+export const courseService = createResourceService<Course, CourseDTO>('/courses', courseSchema)((r) => ({
+  getPaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('', params, options),
+  getActive: (options?: RequestOptions) => r.list('/active', options),
+  getActivePaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('/active', params, options),
+  getByCode: (code: string, options?: RequestOptions) => r.one(`/code/${code}`, options),
+  search: (query: string) => r.search(query),
+  searchPaged: (query: string, params?: PaginationParams) => r.searchPaged(query, params),
+  deactivate: (id: number) => r.patch(`/${id}/deactivate`),
+  count: () => r.count(),
+}));
 
-export const courseGroupService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<CourseGroup[]>>('/course-groups');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<CourseGroup>>(`/course-groups/${id}`);
-    return response.data.data;
-  },
-  
-  getByCourse: async (courseId: number) => {
-    const response = await api.get<ApiResponse<CourseGroup[]>>(`/course-groups/course/${courseId}`);
-    return response.data.data || [];
-  },
-  
-  getByPeriod: async (periodId: number) => {
-    const response = await api.get<ApiResponse<CourseGroup[]>>(`/course-groups/period/${periodId}`);
-    return response.data.data || [];
-  },
-  
-  create: async (data: CourseGroupDTO) => {
-    const response = await api.post<ApiResponse<CourseGroup>>('/course-groups', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: CourseGroupDTO) => {
-    const response = await api.put<ApiResponse<CourseGroup>>(`/course-groups/${id}`, data);
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/course-groups/${id}`);
-  },
-};
+export const courseGroupService = createResourceService<CourseGroup, CourseGroupDTO>('/course-groups', courseGroupSchema)((r) => ({
+  getByCourse: (courseId: number, options?: RequestOptions) => r.list(`/course/${courseId}`, options),
+  getByPeriod: (periodId: number, options?: RequestOptions) => r.list(`/period/${periodId}`, options),
+}));
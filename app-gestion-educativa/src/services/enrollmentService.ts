@@ -1,7 +1,5 @@
-import api from '../api/axios';
+import { createResourceService } from './resource';
 import type { 
-  ApiResponse,
-  PagedResponse,
   PaginationParams,
   AcademicPeriod, 
   AcademicPeriodDTO,
@@ -10,267 +8,46 @@ import type {
   LevelEnrollment,
   LevelEnrollmentDTO,
   SubjectEnrollment,
-  SubjectEnrollmentDTO
+  SubjectEnrollmentDTO,
+  RequestOptions
 } from '../types';
+import { academicPeriodSchema, courseEnrollmentSchema, levelEnrollmentSchema, subjectEnrollmentSchema } from '../schemas/api';
 
-export const academicPeriodService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<AcademicPeriod[]>>('/academic-periods');
-    return response.data.data || [];
-  },
-  
-  getPaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/academic-periods/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<AcademicPeriod>>>(url);
-    return response.data.data!;
-  },
-  
-  getActive: async () => {
-    const response = await api.get<ApiResponse<AcademicPeriod[]>>('/academic-periods/active');
-    return response.data.data || [];
-  },
-  
-  getActivePaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/academic-periods/active/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<AcademicPeriod>>>(url);
-    return response.data.data!;
-  },
-  
-  getCurrent: async () => {
-    const response = await api.get<ApiResponse<AcademicPeriod>>('/academic-periods/current');
-    return response.data.data;
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<AcademicPeriod>>(`/academic-periods/${id}`);
-    return response.data.data;
-  },
-  
-  getByYear: async (year: number) => {
-    const response = await api.get<ApiResponse<AcademicPeriod[]>>(`/academic-periods/year/${year}`);
-    return response.data.data || [];
-  },
-  
-  getByYearPaged: async (year: number, params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/academic-periods/year/${year}/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<AcademicPeriod>>>(url);
-    return response.data.data!;
-  },
-  
-  create: async (data: AcademicPeriodDTO) => {
-    const response = await api.post<ApiResponse<AcademicPeriod>>('/academic-periods', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: AcademicPeriodDTO) => {
-    const response = await api.put<ApiResponse<AcademicPeriod>>(`/academic-periods/${id}`, data);
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/academic-periods/${id}`);
-  },
-  
-  count: async () => {
-    const response = await api.get<ApiResponse<number>>('/academic-periods/count');
-    return response.data.data || 0;
-  },
-};
+export const academicPeriodService = createResourceService<AcademicPeriod, AcademicPeriodDTO>('/academic-periods', academicPeriodSchema)((r) => ({
+  getPaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('', params, options),
+  getActive: (options?: RequestOptions) => r.list('/active', options),
+  getActivePaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('/active', params, options),
+  getCurrent: (options?: RequestOptions) => r.one('/current', options),
+  getByYear: (year: number, options?: RequestOptions) => r.list(`/year/${year}`, options),
+  getByYearPaged: (year: number, params?: PaginationParams, options?: RequestOptions) =>
+    r.paged(`/year/${year}`, params, options),
+  count: () => r.count(),
+}));
 
-export const courseEnrollmentService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<CourseEnrollment[]>>('/course-enrollments');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<CourseEnrollment>>(`/course-enrollments/${id}`);
-    return response.data.data;
-  },
-  
-  getByStudent: async (studentId: number) => {
-    const response = await api.get<ApiResponse<CourseEnrollment[]>>(`/course-enrollments/student/${studentId}`);
-    return response.data.data || [];
-  },
-  
-  getByCourse: async (courseId: number) => {
-    const response = await api.get<ApiResponse<CourseEnrollment[]>>(`/course-enrollments/course/${courseId}`);
-    return response.data.data || [];
-  },
-  
-  getByPeriod: async (periodId: number) => {
-    const response = await api.get<ApiResponse<CourseEnrollment[]>>(`/course-enrollments/period/${periodId}`);
-    return response.data.data || [];
-  },
-  
-  create: async (data: CourseEnrollmentDTO) => {
-    const response = await api.post<ApiResponse<CourseEnrollment>>('/course-enrollments', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: CourseEnrollmentDTO) => {
-    const response = await api.put<ApiResponse<CourseEnrollment>>(`/course-enrollments/${id}`, data);
-    return response.data.data;
-  },
-  
-  updateStatus: async (id: number, status: string) => {
-    const response = await api.patch<ApiResponse<CourseEnrollment>>(
-      `/course-enrollments/${id}/status`,
-      { status }
-    );
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/course-enrollments/${id}`);
-  },
-};
+export const courseEnrollmentService = createResourceService<CourseEnrollment, CourseEnrollmentDTO>('/course-enrollments', courseEnrollmentSchema)((r) => ({
+  getByStudent: (studentId: number, options?: RequestOptions) => r.list(`/student/${studentId}`, options),
+  getByCourse: (courseId: number, options?: RequestOptions) => r.list(`/course/${courseId}`, options),
+  getByPeriod: (periodId: number, options?: RequestOptions) => r.list(`/period/${periodId}`, options),
+  updateStatus: (id: number, status: string) => r.patch(`/${id}/status`, { status }),
+}));
 
-export const levelEnrollmentService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>('/level-enrollments');
-    return response.data.data || [];
-  },
-  
-  getPaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/level-enrollments/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<LevelEnrollment>>>(url);
-    return response.data.data!;
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<LevelEnrollment>>(`/level-enrollments/${id}`);
-    return response.data.data;
-  },
-  
-  getByCourseEnrollment: async (courseEnrollmentId: number) => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>(
-      `/level-enrollments/course-enrollment/${courseEnrollmentId}`
-    );
-    return response.data.data || [];
-  },
-  
-  getByLevel: async (levelId: number) => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>(`/level-enrollments/level/${levelId}`);
-    return response.data.data || [];
-  },
-  
-  getByPeriod: async (periodId: number) => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>(`/level-enrollments/period/${periodId}`);
-    return response.data.data || [];
-  },
-  
-  getByGroup: async (groupId: number) => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>(`/level-enrollments/group/${groupId}`);
-    return response.data.data || [];
-  },
-  
-  getByStatus: async (status: string) => {
-    const response = await api.get<ApiResponse<LevelEnrollment[]>>(`/level-enrollments/status/${status}`);
-    return response.data.data || [];
-  },
-  
-  create: async (data: LevelEnrollmentDTO) => {
-    const response = await api.post<ApiResponse<LevelEnrollment>>('/level-enrollments', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: LevelEnrollmentDTO) => {
-    const response = await api.put<ApiResponse<LevelEnrollment>>(`/level-enrollments/${id}`, data);
-    return response.data.data;
-  },
-  
-  updateStatus: async (id: number, status: string) => {
-    const response = await api.patch<ApiResponse<LevelEnrollment>>(
-      `/level-enrollments/${id}/status?status=${status}`
-    );
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/level-enrollments/${id}`);
-  },
-};
+export const levelEnrollmentService = createResourceService<LevelEnrollment, LevelEnrollmentDTO>('/level-enrollments', levelEnrollmentSchema)((r) => ({
+  getPaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('', params, options),
+  getByCourseEnrollment: (courseEnrollmentId: number, options?: RequestOptions) =>
+    r.list(`/course-enrollment/${courseEnrollmentId}`, options),
+  getByLevel: (levelId: number, options?: RequestOptions) => r.list(`/level/${levelId}`, options),
+  getByPeriod: (periodId: number, options?: RequestOptions) => r.list(`/period/${periodId}`, options),
+  getByGroup: (groupId: number, options?: RequestOptions) => r.list(`/group/${groupId}`, options),
+  getByStatus: (status: string, options?: RequestOptions) => r.list(`/status/${status}`, options),
+  updateStatus: (id: number, status: string) => r.patch(`/${id}/status?status=${status}`),
+}));
 
-export const subjectEnrollmentService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<SubjectEnrollment[]>>('/subject-enrollments');
-    return response.data.data || [];
-  },
-  
-  getPaged: async (params?: PaginationParams) => {
-    const queryParams = new URLSearchParams();
-    if (params?.page !== undefined) queryParams.append('page', params.page.toString());
-    if (params?.size !== undefined) queryParams.append('size', params.size.toString());
-    if (params?.sort) queryParams.append('sort', params.sort);
-    
-    const url = `/subject-enrollments/paged${queryParams.toString() ? '?' + queryParams.toString() : ''}`;
-    const response = await api.get<ApiResponse<PagedResponse<SubjectEnrollment>>>(url);
-    return response.data.data!;
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<SubjectEnrollment>>(`/subject-enrollments/${id}`);
-    return response.data.data;
-  },
-  
-  getByLevelEnrollment: async (levelEnrollmentId: number) => {
-    const response = await api.get<ApiResponse<SubjectEnrollment[]>>(
-      `/subject-enrollments/level-enrollment/${levelEnrollmentId}`
-    );
-    return response.data.data || [];
-  },
-  
-  getBySubjectAssignment: async (subjectAssignmentId: number) => {
-    const response = await api.get<ApiResponse<SubjectEnrollment[]>>(
-      `/subject-enrollments/subject-assignment/${subjectAssignmentId}`
-    );
-    return response.data.data || [];
-  },
-  
-  getByStatus: async (status: string) => {
-    const response = await api.get<ApiResponse<SubjectEnrollment[]>>(`/subject-enrollments/status/${status}`);
-    return response.data.data || [];
-  },
-  
-  create: async (data: SubjectEnrollmentDTO) => {
-    const response = await api.post<ApiResponse<SubjectEnrollment>>('/subject-enrollments', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: SubjectEnrollmentDTO) => {
-    const response = await api.put<ApiResponse<SubjectEnrollment>>(`/subject-enrollments/${id}`, data);
-    return response.data.data;
-  },
-  
-  updateStatus: async (id: number, status: string) => {
-    const response = await api.patch<ApiResponse<SubjectEnrollment>>(
-      `/subject-enrollments/${id}/status?status=${status}`
-    );
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/subject-enrollments/${id}`);
-  },
-};
+export const subjectEnrollmentService = createResourceService<SubjectEnrollment, SubjectEnrollmentDTO>('/subject-enrollments', subjectEnrollmentSchema)((r) => ({
+  getPaged: (params?: PaginationParams, options?: RequestOptions) => r.paged('', params, options),
+  getByLevelEnrollment: (levelEnrollmentId: number, options?: RequestOptions) =>
+    r.list(`/level-enrollment/${levelEnrollmentId}`, options),
+  getBySubjectAssignment: (subjectAssignmentId: number, options?: RequestOptions) =>
+    r.list(`/subject-assignment/${subjectAssignmentId}`, options),
+  getByStatus: (status: string, options?: RequestOptions) => r.list(`/status/${status}`, options),
+  updateStatus: (id: number, status: string) => r.patch(`/${id}/status?status=${status}`),
+}));
@@ -1,138 +1,52 @@
-import api from '../api/axios';
+import { createResourceService } from './resource';
 import type { 
-  ApiResponse, 
   Grade, 
   GradeDTO, 
   GradePeriod, 
   GradeComponent,
   Attendance,
-  AttendanceDTO 
+  AttendanceDTO,
+  BulkUpsertResult,
+  RequestOptions
 } from '../types';
+import {
+  attendanceSchema,
+  bulkUpsertResultSchema,
+  gradeComponentSchema,
+  gradePeriodSchema,
+  gradeSchema,
+} from '../schemas/api';
 
-export const gradeService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<Grade[]>>('/grades');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<Grade>>(`/grades/${id}`);
-    return response.data.data;
-  },
-  
-  getByStudent: async (studentId: number) => {
-    const response = await api.get<ApiResponse<Grade[]>>(`/grades/student/${studentId}`);
-    return response.data.data || [];
-  },
-  
-  getByEnrollment: async (enrollmentId: number) => {
-    const response = await api.get<ApiResponse<Grade[]>>(`/grades/enrollment/${enrollmentId}`);
-    return response.data.data || [];
-  },
-  
-  getByGroup: async (groupId: number) => {
-    const response = await api.get<ApiResponse<Grade[]>>(`/grades/group/${groupId}`);
-    return response.data.data || [];
-  },
-  
-  getByPeriod: async (periodId: number) => {
-    const response = await api.get<ApiResponse<Grade[]>>(`/grades/period/${periodId}`);
-    return response.data.data || [];
-  },
-  
-  create: async (data: GradeDTO) => {
-    const response = await api.post<ApiResponse<Grade>>('/grades', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: GradeDTO) => {
-    const response = await api.put<ApiResponse<Grade>>(`/grades/${id}`, data);
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/grades/${id}`);
-  },
-  
-  count: async () => {
-    const response = await api.get<ApiResponse<number>>('/grades/count');
-    return response.data.data || 0;
-  },
-};
+export const gradeService = createResourceService<Grade, GradeDTO>('/grades', gradeSchema)((r) => ({
+  getByStudent: (studentId: number, options?: RequestOptions) => r.list(`/student/${studentId}`, options),
+  getByEnrollment: (enrollmentId: number, options?: RequestOptions) => r.list(`/enrollment/${enrollmentId}`, options),
+  getByGroup: (groupId: number, options?: RequestOptions) => r.list(`/group/${groupId}`, options),
+  getByPeriod: (periodId: number, options?: RequestOptions) => r.list(`/period/${periodId}`, options),
+  count: () => r.count(),
+  /**
+   * Save a whole grade sheet in one request. Rows are matched on enrollment,
+   * grade period and component, and created or updated accordingly.
+   */
+  bulkUpsert: (grades: GradeDTO[]): Promise<BulkUpsertResult<Grade>> =>
+    r.post('/bulk', grades, bulkUpsertResultSchema(gradeSchema)),
+}));
 
-export const gradePeriodService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<GradePeriod[]>>('/grade-periods');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<GradePeriod>>(`/grade-periods/${id}`);
-    return response.data.data;
-  },
-};
+// Catalogs are read-only
+export const gradePeriodService = createResourceService<GradePeriod, never>('/grade-periods', gradePeriodSchema)();
 
-export const gradeComponentService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<GradeComponent[]>>('/grade-components');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<GradeComponent>>(`/grade-components/${id}`);
-    return response.data.data;
-  },
-};
+export const gradeComponentService = createResourceService<GradeComponent, never>('/grade-components', gradeComponentSchema)();
 
-export const attendanceService = {
-  getAll: async () => {
-    const response = await api.get<ApiResponse<Attendance[]>>('/attendance');
-    return response.data.data || [];
-  },
-  
-  getById: async (id: number) => {
-    const response = await api.get<ApiResponse<Attendance>>(`/attendance/${id}`);
-    return response.data.data;
-  },
-  
-  getByStudent: async (studentId: number) => {
-    const response = await api.get<ApiResponse<Attendance[]>>(`/attendance/student/${studentId}`);
-    return response.data.data || [];
-  },
-  
-  getBySession: async (sessionId: number) => {
-    const response = await api.get<ApiResponse<Attendance[]>>(`/attendance/session/${sessionId}`);
-    return response.data.data || [];
-  },
-  
-  getByEnrollment: async (enrollmentId: number) => {
-    const response = await api.get<ApiResponse<Attendance[]>>(`/attendance/enrollment/${enrollmentId}`);
-    return response.data.data || [];
-  },
-  
-  getByDateRange: async (startDate: string, endDate: string) => {
-    const response = await api.get<ApiResponse<Attendance[]>>(
-      `/attendance/date-range?startDate=${startDate}&endDate=${endDate}`
-    );
-    return response.data.data || [];
-  },
-  
-  create: async (data: AttendanceDTO) => {
-    const response = await api.post<ApiResponse<Attendance>>('/attendance', data);
-    return response.data.data;
-  },
-  
-  update: async (id: number, data: AttendanceDTO) => {
-    const response = await api.put<ApiResponse<Attendance>>(`/attendance/${id}`, data);
-    return response.data.data;
-  },
-  
-  delete: async (id: number) => {
-    await api.delete(`/attendance/${id}`);
-  },
-  
-  count: async () => {
-    const response = await api.get<ApiResponse<number>>('/attendance/count');
-    return response.data.data || 0;
-  },
-};
+export const attendanceService = createResourceService<Attendance, AttendanceDTO>('/attendance', attendanceSchema)((r) => ({
+  getByStudent: (studentId: number, options?: RequestOptions) => r.list(`/student/${studentId}`, options),
+  getBySession: (sessionId: number, options?: RequestOptions) => r.list(`/session/${sessionId}`, options),
+  getByEnrollment: (enrollmentId: number, options?: RequestOptions) => r.list(`/enrollment/${enrollmentId}`, options),
+  getByDateRange: (startDate: string, endDate: string, options?: RequestOptions) =>
+    r.list(`/date-range?startDate=${startDate}&endDate=${endDate}`, options),
+  count: () => r.count(),
+  /**
+   * Save the attendance of a whole session in one request. Rows are matched on
+   * enrollment and class session, and created or updated accordingly.
+   */
+  bulkUpsert: (records: AttendanceDTO[]): Promise<BulkUpsertResult<Attendance>> =>
+    r.post('/bulk', records, bulkUpsertResultSchema(attendanceSchema)),
+}));
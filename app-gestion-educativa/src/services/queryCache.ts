@@ -0,0 +1,129 @@
+/**
+ * In-memory cache for read requests shared by every page.
+ *
+ * - Entries are keyed by request path, e.g. `/course-groups`.
+ * - Concurrent requests for the same key share one promise.
+ * - Data older than `staleTime` is returned right away and refreshed in the
+ *   background (stale-while-revalidate); subscribers are notified when it lands.
+ * - Mutations invalidate every key under their endpoint, so the next read
+ *   waits for fresh data instead of serving the old list.
+ */
+
+export interface QueryEntry<T = unknown> {
+  data?: T;
+  error?: unknown;
+  updatedAt: number;
+  isInvalidated: boolean;
+  promise?: Promise<T>;
+}
+
+export interface QueryOptions {
+  /** Milliseconds a cached response is served without revalidating */
+  staleTime?: number;
+}
+
+export const DEFAULT_STALE_TIME = 30_000;
+
+const entries = new Map<string, QueryEntry>();
+const listeners = new Map<string, Set<() => void>>();
+
+// Entries are replaced, never mutated, so subscribers can compare snapshots
+const setEntry = (key: string, entry: QueryEntry) => {
+  entries.set(key, entry);
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const matchesPrefix = (key: string, prefix: string) =>
+  key === prefix || key.startsWith(`${prefix}/`) || key.startsWith(`${prefix}?`);
+
+const revalidate = <T>(key: string, fetcher: () => Promise<T>): Promise<T> => {
+  const current = entries.get(key) as QueryEntry<T> | undefined;
+  if (current?.promise) return current.promise;
+
+  const promise = fetcher().then(
+    (data) => {
+      // Ignore responses that were superseded by an invalidation
+      if (entries.get(key)?.promise === promise) {
+        setEntry(key, { data, updatedAt: Date.now(), isInvalidated: false });
+      }
+      return data;
+    },
+    (error) => {
+      const latest = entries.get(key);
+      if (latest?.promise === promise) {
+        // Keep any previous data; the failure itself does not trigger a retry
+        setEntry(key, { ...latest, error, isInvalidated: false, promise: undefined });
+      }
+      throw error;
+    }
+  );
+
+  setEntry(key, {
+    data: current?.data,
+    updatedAt: current?.updatedAt ?? 0,
+    isInvalidated: current?.isInvalidated ?? false,
+    promise,
+  });
+  return promise;
+};
+
+/**
+ * Resolves `key` from the cache, fetching it when missing or invalidated.
+ * Stale data is returned immediately while a background request refreshes it.
+ */
+export function fetchQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { staleTime = DEFAULT_STALE_TIME }: QueryOptions = {}
+): Promise<T> {
+  const entry = entries.get(key) as QueryEntry<T> | undefined;
+
+  if (entry?.data !== undefined && !entry.isInvalidated) {
+    if (Date.now() - entry.updatedAt >= staleTime) {
+      revalidate(key, fetcher).catch((error) => {
+        console.error(`Error revalidating ${key}:`, error);
+      });
+    }
+    return Promise.resolve(entry.data);
+  }
+
+  return revalidate(key, fetcher);
+}
+
+export const getQueryEntry = <T>(key: string): QueryEntry<T> | undefined =>
+  entries.get(key) as QueryEntry<T> | undefined;
+
+/**
+ * Listen for changes of one key. Returns the unsubscribe function.
+ */
+export function subscribeQuery(key: string, listener: () => void): () => void {
+  const keyListeners = listeners.get(key) ?? new Set();
+  keyListeners.add(listener);
+  listeners.set(key, keyListeners);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) listeners.delete(key);
+  };
+}
+
+/**
+ * Marks every key under `prefix` as outdated and drops in-flight requests, so
+ * mounted queries refetch and later reads wait for the server.
+ */
+export function invalidateQueries(prefix: string): void {
+  entries.forEach((entry, key) => {
+    if (matchesPrefix(key, prefix)) {
+      setEntry(key, { ...entry, isInvalidated: true, promise: undefined });
+    }
+  });
+}
+
+/**
+ * Forgets everything, e.g. when the logged-in user changes.
+ */
+export function clearQueryCache(): void {
+  const keys = [...entries.keys()];
+  entries.clear();
+  keys.forEach((key) => listeners.get(key)?.forEach((listener) => listener()));
+}
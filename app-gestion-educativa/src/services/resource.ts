@@ -0,0 +1,217 @@
+import * as z from 'zod';
+import api from '../api/axios';
+import { validateResponse } from '../api/contract';
+import { pagedResponseSchema } from '../schemas/api';
+import { fetchQuery, invalidateQueries } from './queryCache';
+import type { ApiResponse, PagedResponse, PaginationParams, RequestOptions } from '../types';
+
+const buildQuery = (params?: PaginationParams, extra?: Record<string, string>) => {
+  const queryParams = new URLSearchParams(extra);
+  if (params?.page !== undefined) queryParams.append('page', params.page.toString());
+  if (params?.size !== undefined) queryParams.append('size', params.size.toString());
+  if (params?.sort) queryParams.append('sort', params.sort);
+  return queryParams.toString();
+};
+
+// Generic API functions
+export async function getAll<T>(endpoint: string, options?: RequestOptions): Promise<T[]> {
+  const response = await api.get<ApiResponse<T[]>>(endpoint, options);
+  return response.data.data || [];
+}
+
+export async function getPaged<T>(
+  endpoint: string,
+  params?: PaginationParams,
+  options?: RequestOptions
+): Promise<PagedResponse<T>> {
+  const query = buildQuery(params);
+  const url = `${endpoint}/paged${query ? '?' + query : ''}`;
+  const response = await api.get<ApiResponse<PagedResponse<T>>>(url, options);
+  if (!response.data.data) {
+    throw new Error('Failed to fetch paged data');
+  }
+  return response.data.data;
+}
+
+export async function getOne<T>(url: string, options?: RequestOptions): Promise<T | undefined> {
+  const response = await api.get<ApiResponse<T>>(url, options);
+  return response.data.data;
+}
+
+// Like the services they replaced, getById, create and update resolve to
+// undefined when the response carries no resource; callers check for it
+export async function getById<T>(endpoint: string, id: number, options?: RequestOptions): Promise<T | undefined> {
+  const response = await api.get<ApiResponse<T>>(`${endpoint}/${id}`, options);
+  return response.data.data;
+}
+
+export async function create<T, D>(endpoint: string, data: D): Promise<T | undefined> {
+  const response = await api.post<ApiResponse<T>>(endpoint, data);
+  return response.data.data;
+}
+
+// Custom POST endpoints always answer with the created or computed value
+async function post<T, D>(endpoint: string, data: D): Promise<T> {
+  const created = await create<T, D>(endpoint, data);
+  if (!created) {
+    throw new Error('Failed to create resource');
+  }
+  return created;
+}
+
+export async function put<T>(url: string, data: unknown): Promise<T | undefined> {
+  const response = await api.put<ApiResponse<T>>(url, data);
+  return response.data.data;
+}
+
+export async function update<T, D>(endpoint: string, id: number, data: D): Promise<T | undefined> {
+  return put<T>(`${endpoint}/${id}`, data);
+}
+
+export async function patch<T>(url: string, body?: unknown): Promise<T | undefined> {
+  const response = await api.patch<ApiResponse<T>>(url, body);
+  return response.data.data;
+}
+
+export async function remove(url: string): Promise<void> {
+  await api.delete(url);
+}
+
+export async function count(url: string, options?: RequestOptions): Promise<number> {
+  const response = await api.get<ApiResponse<number>>(url, options);
+  return response.data.data || 0;
+}
+
+export async function search<T>(
+  endpoint: string,
+  query: string,
+  param = 'name',
+  options?: RequestOptions
+): Promise<T[]> {
+  const response = await api.get<ApiResponse<T[]>>(
+    `${endpoint}/search?${buildQuery(undefined, { [param]: query })}`,
+    options
+  );
+  return response.data.data || [];
+}
+
+export async function searchPaged<T>(
+  endpoint: string,
+  query: string,
+  params?: PaginationParams,
+  param = 'name',
+  options?: RequestOptions
+): Promise<PagedResponse<T>> {
+  const url = `${endpoint}/search/paged?${buildQuery(params, { [param]: query })}`;
+  const response = await api.get<ApiResponse<PagedResponse<T>>>(url, options);
+  if (!response.data.data) {
+    throw new Error('Failed to search');
+  }
+  return response.data.data;
+}
+
+/**
+ * Helpers handed to `createResourceService` extensions. Paths are relative to
+ * the resource endpoint, e.g. `list('/active')` requests `/courses/active`.
+ * Read helpers take `RequestOptions` so callers can abort them. Responses that
+ * are not a `T` pass their own schema to `post`.
+ */
+export interface ResourceEndpoints<T> {
+  endpoint: string;
+  list: <R = T>(path: string, options?: RequestOptions) => Promise<R[]>;
+  paged: (path?: string, params?: PaginationParams, options?: RequestOptions) => Promise<PagedResponse<T>>;
+  one: <R = T>(path: string, options?: RequestOptions) => Promise<R | undefined>;
+  search: (query: string, param?: string, options?: RequestOptions) => Promise<T[]>;
+  searchPaged: (
+    query: string,
+    params?: PaginationParams,
+    param?: string,
+    options?: RequestOptions
+  ) => Promise<PagedResponse<T>>;
+  post: <R = T>(path: string, body: unknown, responseSchema?: z.ZodType) => Promise<R>;
+  put: <R = T>(path: string, body: unknown) => Promise<R | undefined>;
+  patch: <R = T>(path: string, body?: unknown) => Promise<R | undefined>;
+  remove: (path: string) => Promise<void>;
+  count: (path?: string, options?: RequestOptions) => Promise<number>;
+}
+
+// CRUD endpoints every resource exposes
+export interface ResourceService<T, DTO> {
+  getAll: () => Promise<T[]>;
+  /** Uncached `getAll`, the fetcher to hand to `useQuery` */
+  fetchAll: () => Promise<T[]>;
+  getById: (id: number, options?: RequestOptions) => Promise<T | undefined>;
+  create: (data: DTO) => Promise<T | undefined>;
+  update: (id: number, data: DTO) => Promise<T | undefined>;
+  delete: (id: number) => Promise<void>;
+}
+
+/**
+ * Builds the standard CRUD service for `endpoint`. Resource-specific endpoints
+ * are added (or CRUD ones replaced) by the returned function, curried so that
+ * `T`/`DTO` can be given explicitly while the extra endpoints are inferred:
+ *
+ *   createResourceService<Course, CourseDTO>('/courses')((r) => ({ getActive: () => r.list('/active') }))
+ *
+ * `getAll` is served from the query cache (`fetchAll` is the same request
+ * without it); every write through the service invalidates the cached reads
+ * of the endpoint.
+ *
+ * With a `schema` (see `schemas/api.ts`) every response carrying resources is
+ * validated against it, reporting contract drift of the backend.
+ */
+export function createResourceService<T, DTO>(endpoint: string, schema?: z.ZodType) {
+  return <E extends object = object>(
+    extend?: (resource: ResourceEndpoints<T>) => E
+  ): Omit<ResourceService<T, DTO>, keyof E> & E => {
+    // Writes may succeed even when the response is lost, so invalidate either way
+    const mutate = <R>(request: Promise<R>) => request.finally(() => invalidateQueries(endpoint));
+
+    // Item, optional item, list and page shapes of the resource
+    const contract = schema && {
+      item: schema,
+      maybe: schema.nullish(),
+      list: z.array(schema),
+      page: pagedResponseSchema(schema),
+    };
+    const check = <R>(expected: z.ZodType | undefined, url: string, request: Promise<R>) =>
+      expected ? request.then((data) => validateResponse(expected, data, url)) : request;
+
+    const resource: ResourceEndpoints<T> = {
+      endpoint,
+      list: <R = T>(path: string, options?: RequestOptions) =>
+        check(contract?.list, `${endpoint}${path}`, getAll<R>(`${endpoint}${path}`, options)),
+      paged: (path = '', params?: PaginationParams, options?: RequestOptions) =>
+        check(contract?.page, `${endpoint}${path}/paged`, getPaged<T>(`${endpoint}${path}`, params, options)),
+      one: <R = T>(path: string, options?: RequestOptions) =>
+        check(contract?.maybe, `${endpoint}${path}`, getOne<R>(`${endpoint}${path}`, options)),
+      search: (query: string, param?: string, options?: RequestOptions) =>
+        check(contract?.list, `${endpoint}/search`, search<T>(endpoint, query, param, options)),
+      searchPaged: (query: string, params?: PaginationParams, param?: string, options?: RequestOptions) =>
+        check(contract?.page, `${endpoint}/search/paged`, searchPaged<T>(endpoint, query, params, param, options)),
+      post: <R = T>(path: string, body: unknown, responseSchema?: z.ZodType) =>
+        mutate(check(responseSchema ?? contract?.item, `${endpoint}${path}`, post<R, unknown>(`${endpoint}${path}`, body))),
+      put: <R = T>(path: string, body: unknown) =>
+        mutate(check(contract?.maybe, `${endpoint}${path}`, put<R>(`${endpoint}${path}`, body))),
+      patch: <R = T>(path: string, body?: unknown) =>
+        mutate(check(contract?.maybe, `${endpoint}${path}`, patch<R>(`${endpoint}${path}`, body))),
+      remove: (path: string) => mutate(remove(`${endpoint}${path}`)),
+      count: (path = '/count', options?: RequestOptions) => count(`${endpoint}${path}`, options),
+    };
+
+    const fetchAll = () => check(contract?.list, endpoint, getAll<T>(endpoint));
+
+    const service: ResourceService<T, DTO> = {
+      // Shared through the cache, so a single caller cannot abort it
+      getAll: () => fetchQuery(endpoint, fetchAll),
+      fetchAll,
+      getById: (id: number, options?: RequestOptions) =>
+        check(contract?.maybe, `${endpoint}/${id}`, getById<T>(endpoint, id, options)),
+      create: (data: DTO) => mutate(check(contract?.maybe, endpoint, create<T, DTO>(endpoint, data))),
+      update: (id: number, data: DTO) => mutate(check(contract?.maybe, `${endpoint}/${id}`, update<T, DTO>(endpoint, id, data))),
+      delete: (id: number) => mutate(remove(`${endpoint}/${id}`)),
+    };
+
+    return { ...service, ...(extend ? extend(resource) : ({} as E)) };
+  };
+}
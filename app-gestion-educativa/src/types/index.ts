@@ -3,9 +3,16 @@ export interface ApiResponse<T> {
   success: boolean;
   message?: string;
   data?: T;
+  // Validation errors of a rejected request
+  errors?: Record<string, string> | ApiFieldError[];
   timestamp?: string;
 }
 
+export interface ApiFieldError {
+  field: string;
+  message: string;
+}
+
 // Pagination types
 export interface PagedResponse<T> {
   content: T[];
@@ -23,12 +30,38 @@ export interface PagedResponse<T> {
   };
 }
 
+// Result of a bulk upsert: one entry per submitted row, in request order.
+// Rows succeed or fail on their own, so a bad row does not undo the others.
+export interface BulkUpsertResult<T> {
+  results: BulkRowResult<T>[];
+  created: number;
+  updated: number;
+  failed: number;
+}
+
+export interface BulkRowResult<T> {
+  /** Position of the row in the request */
+  index: number;
+  success: boolean;
+  operation?: 'CREATED' | 'UPDATED';
+  /** The saved record, when the row succeeded */
+  data?: T;
+  /** Why the row was rejected */
+  message?: string;
+}
+
 export interface PaginationParams {
   page?: number;
   size?: number;
   sort?: string;
 }
 
+// Per-call request settings accepted by the read methods of the services
+export interface RequestOptions {
+  /** Aborts the request, e.g. when the filters that started it change */
+  signal?: AbortSignal;
+}
+
 // Auth types
 export interface LoginRequest {
   usernameOrEmail: string;
@@ -51,9 +84,67 @@ export interface LoginResponse {
   username: string;
   email: string;
   roles: string[];
+  permissions?: string[];
   expiresIn: number;
 }
 
+// Returned by /auth/login instead of a session when the account has 2FA enabled
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn?: number;
+}
+
+export type LoginResult = LoginResponse | TwoFactorChallenge;
+
+export interface TwoFactorVerifyRequest {
+  challengeToken: string;
+  code: string;
+  // The code is one of the single-use recovery codes instead of a TOTP code
+  recoveryCode?: boolean;
+}
+
+export interface TwoFactorCodeRequest {
+  code: string;
+}
+
+export interface TwoFactorStatusResponse {
+  enabled: boolean;
+  recoveryCodesRemaining?: number;
+}
+
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUrl: string;
+  // QR code of otpauthUrl rendered by the backend as a data URI
+  qrCodeImage?: string;
+}
+
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
+
+export interface ChangePasswordRequest {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface ForgotPasswordRequest {
+  usernameOrEmail: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface PasswordResetTokenResponse {
+  valid: boolean;
+  expired: boolean;
+  username?: string;
+  message?: string;
+}
+
 export interface TokenValidationResponse {
   valid: boolean;
   username?: string;
@@ -65,6 +156,14 @@ export interface AuthUser {
   username: string;
   email: string;
   roles: string[];
+  permissions?: string[];
+}
+
+// Session of the administrator saved while impersonating another user
+export interface ImpersonatorSession {
+  token: string;
+  expiration: string | null;
+  user: AuthUser;
 }
 
 // Student types
@@ -307,12 +406,17 @@ export interface UserDTO {
   roleIds?: number[];
 }
 
+export interface PasswordResetDTO {
+  newPassword: string;
+}
+
 // Role types
 export interface Role {
   id: number;
   name: string;
   description?: string;
   enabled: boolean;
+  permissions?: string[];
   userCount?: number;
   createdAt?: string;
   updatedAt?: string;
@@ -322,6 +426,7 @@ export interface RoleDTO {
   name: string;
   description?: string;
   enabled?: boolean;
+  permissions?: string[];
 }
 
 // Enrollment types
@@ -354,6 +459,7 @@ export interface CourseEnrollmentDTO {
 export interface LevelEnrollment {
   id: number;
   courseEnrollmentId: number;
+  studentName?: string;
   levelId: number;
   levelName?: string;
   academicPeriodId: number;
@@ -0,0 +1,85 @@
+// Online/offline state of the browser plus the requests waiting to be retried.
+// Snapshots are replaced on every change so React can subscribe to them.
+export interface ConnectivitySnapshot {
+  isOnline: boolean;
+  pendingRetries: number;
+}
+
+const listeners = new Set<() => void>();
+
+let snapshot: ConnectivitySnapshot = {
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pendingRetries: 0,
+};
+
+const update = (changes: Partial<ConnectivitySnapshot>) => {
+  snapshot = { ...snapshot, ...changes };
+  listeners.forEach((listener) => listener());
+};
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('online', () => update({ isOnline: true }));
+  window.addEventListener('offline', () => update({ isOnline: false }));
+}
+
+export const connectivity = {
+  getSnapshot(): ConnectivitySnapshot {
+    return snapshot;
+  },
+
+  isOnline(): boolean {
+    return snapshot.isOnline;
+  },
+
+  /**
+   * Listen for connectivity changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Resolves once the browser is back online, right away if it already is.
+   * Rejects with the signal's reason when the request is aborted meanwhile,
+   * and with an error once `timeoutMs` pass without a connection.
+   */
+  waitForOnline(signal?: AbortSignal, timeoutMs?: number): Promise<void> {
+    if (snapshot.isOnline) return Promise.resolve();
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    return new Promise((resolve, reject) => {
+      const cleanup = () => {
+        unsubscribe();
+        window.clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal?.reason);
+      };
+      const timer =
+        timeoutMs === undefined
+          ? undefined
+          : window.setTimeout(() => {
+              cleanup();
+              reject(new Error('Still offline'));
+            }, timeoutMs);
+      const unsubscribe = connectivity.subscribe(() => {
+        if (snapshot.isOnline) {
+          cleanup();
+          resolve();
+        }
+      });
+      signal?.addEventListener('abort', onAbort);
+    });
+  },
+
+  /**
+   * Track a retry from the moment it is scheduled until it settles.
+   */
+  trackRetry<T>(retry: Promise<T>): Promise<T> {
+    update({ pendingRetries: snapshot.pendingRetries + 1 });
+    return retry.finally(() => update({ pendingRetries: snapshot.pendingRetries - 1 }));
+  },
+};
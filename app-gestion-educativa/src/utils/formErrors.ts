@@ -0,0 +1,23 @@
+import type { FieldValues, Path, UseFormSetError } from 'react-hook-form';
+import { isApiError } from '../api/errors';
+
+/**
+ * Pushes the field errors of an API error into a react-hook-form. Backend
+ * field names are used as form paths unless renamed through `fieldMap`.
+ * Returns whether any field error was applied, so callers only fall back to a
+ * toast for errors that are not tied to an input.
+ */
+export const applyApiFieldErrors = <T extends FieldValues>(
+  error: unknown,
+  setError: UseFormSetError<T>,
+  fieldMap: Partial<Record<string, Path<T>>> = {}
+): boolean => {
+  if (!isApiError(error) || !error.hasFieldErrors) return false;
+
+  Object.entries(error.fieldErrors).forEach(([field, message], index) => {
+    const name = fieldMap[field] ?? (field as Path<T>);
+    setError(name, { type: 'server', message }, { shouldFocus: index === 0 });
+  });
+
+  return true;
+};
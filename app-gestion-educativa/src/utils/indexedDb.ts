@@ -0,0 +1,55 @@
+// Minimal promise wrapper around IndexedDB for the offline stores of the app.
+// Each store keeps its records under an auto-incremented `id`, so reading them
+// back in key order returns them in insertion order.
+
+const DB_NAME = 'cesde_offline';
+const DB_VERSION = 1;
+const STORES = ['attendanceOutbox'] as const;
+
+export type OfflineStoreName = (typeof STORES)[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      STORES.forEach((name) => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+        }
+      });
+    };
+    dbPromise = promisify(request).catch((error) => {
+      // Let the next call try again, e.g. after the user frees up storage
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(
+  name: OfflineStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(name, mode).objectStore(name)));
+};
+
+/**
+ * Typed access to one offline store. `add` resolves to the generated id.
+ */
+export const offlineStore = <T extends { id?: number }>(name: OfflineStoreName) => ({
+  getAll: () => withStore<T[]>(name, 'readonly', (store) => store.getAll()),
+  add: (record: Omit<T, 'id'>) => withStore(name, 'readwrite', (store) => store.add(record)).then(Number),
+  put: (record: T) => withStore(name, 'readwrite', (store) => store.put(record)).then(() => undefined),
+  delete: (id: number) => withStore(name, 'readwrite', (store) => store.delete(id)),
+});
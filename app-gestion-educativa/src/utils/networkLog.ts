@@ -0,0 +1,163 @@
+// Requests made through the shared axios instance, recorded for the developer
+// network inspector. Only fed when NETWORK_INSPECTOR_ENABLED is on.
+
+export type NetworkEntryState = 'pending' | 'success' | 'error' | 'canceled';
+
+export interface NetworkEntry {
+  id: number;
+  method: string;
+  /** Path relative to the API base URL, with its query string */
+  url: string;
+  requestBody?: unknown;
+  startedAt: number;
+  durationMs?: number;
+  status: number | null;
+  state: NetworkEntryState;
+  /** `data` of the ApiResponse, or the raw body when it is not wrapped */
+  response?: unknown;
+  message?: string;
+  /** 0 for the first attempt, then the number of the retry or token refresh replay */
+  attempt: number;
+  /** Earlier identical request still in flight or sent moments before */
+  duplicateOf?: number;
+}
+
+export interface NetworkLogSnapshot {
+  entries: NetworkEntry[];
+}
+
+export interface NetworkRequestInfo {
+  method: string;
+  url: string;
+  params?: unknown;
+  body?: unknown;
+  attempt: number;
+}
+
+const MAX_ENTRIES = 300;
+// An identical request sent while another is in flight, or this soon after it
+// settled, is reported as a duplicate
+const DUPLICATE_WINDOW_MS = 1000;
+
+const listeners = new Set<() => void>();
+const keys = new Map<number, string>();
+
+let snapshot: NetworkLogSnapshot = { entries: [] };
+let nextId = 1;
+
+const update = (entries: NetworkEntry[]) => {
+  snapshot = { entries };
+  listeners.forEach((listener) => listener());
+};
+
+const parseBody = (body: unknown) => {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+};
+
+const withQuery = (url: string, params: unknown) => {
+  if (!params || typeof params !== 'object') return url;
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null) query.append(key, String(value));
+  });
+  const search = query.toString();
+  return search ? `${url}${url.includes('?') ? '&' : '?'}${search}` : url;
+};
+
+const isApiResponse = (body: unknown): body is { success: boolean; message?: string; data?: unknown } =>
+  typeof body === 'object' && body !== null && typeof (body as { success?: unknown }).success === 'boolean';
+
+const finish = (id: number, changes: Partial<NetworkEntry>) => {
+  update(
+    snapshot.entries.map((entry) =>
+      entry.id === id ? { ...entry, ...changes, durationMs: performance.now() - entry.startedAt } : entry
+    )
+  );
+};
+
+export const networkLog = {
+  getSnapshot(): NetworkLogSnapshot {
+    return snapshot;
+  },
+
+  /**
+   * Listen for new and settled requests. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Record a request as it leaves. Returns the id to settle it with.
+   */
+  start({ method, url, params, body, attempt }: NetworkRequestInfo): number {
+    const id = nextId++;
+    const startedAt = performance.now();
+    const requestBody = parseBody(body);
+    const fullUrl = withQuery(url, params);
+    const key = `${method} ${fullUrl} ${JSON.stringify(requestBody ?? null)}`;
+
+    // Retries repeat the request on purpose, so they are never duplicates
+    const original =
+      attempt === 0
+        ? snapshot.entries.find(
+            (entry) =>
+              entry.attempt === 0 &&
+              keys.get(entry.id) === key &&
+              (entry.state === 'pending' || startedAt - entry.startedAt - (entry.durationMs ?? 0) < DUPLICATE_WINDOW_MS)
+          )
+        : undefined;
+
+    keys.set(id, key);
+    const entry: NetworkEntry = {
+      id,
+      method,
+      url: fullUrl,
+      requestBody,
+      startedAt,
+      status: null,
+      state: 'pending',
+      attempt,
+      duplicateOf: original && (original.duplicateOf ?? original.id),
+    };
+
+    const entries = [entry, ...snapshot.entries];
+    entries.slice(MAX_ENTRIES).forEach((dropped) => keys.delete(dropped.id));
+    update(entries.slice(0, MAX_ENTRIES));
+    return id;
+  },
+
+  succeed(id: number, status: number, body: unknown): void {
+    finish(id, {
+      status,
+      state: 'success',
+      response: isApiResponse(body) ? body.data : body,
+      message: isApiResponse(body) ? body.message : undefined,
+    });
+  },
+
+  fail(id: number, status: number | null, body: unknown, message: string): void {
+    finish(id, {
+      status,
+      state: 'error',
+      // Error bodies are kept whole, their field errors are the useful part
+      response: body,
+      message: (isApiResponse(body) && body.message) || message,
+    });
+  },
+
+  cancel(id: number): void {
+    finish(id, { state: 'canceled' });
+  },
+
+  clear(): void {
+    keys.clear();
+    update([]);
+  },
+};
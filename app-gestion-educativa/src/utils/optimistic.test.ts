@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SetStateAction } from 'react';
+import type { AxiosResponse } from 'axios';
+import { toast } from 'sonner';
+import { mutateOptimistically } from './optimistic';
+import { ApiError } from '../api/errors';
+import type { ApiResponse } from '../types';
+
+vi.mock('sonner', () => ({ toast: { success: vi.fn(), error: vi.fn() } }));
+
+interface Row {
+  id: number;
+  name: string;
+  isActive: boolean;
+}
+
+// Table state as React would keep it
+const createTable = (rows: Row[]) => {
+  let items = rows;
+  return {
+    get items() {
+      return items;
+    },
+    setItems: (action: SetStateAction<Row[]>) => {
+      items = typeof action === 'function' ? action(items) : action;
+    },
+  };
+};
+
+const rows: Row[] = [
+  { id: 1, name: 'Ana', isActive: true },
+  { id: 2, name: 'Luis', isActive: true },
+  { id: 3, name: 'Marta', isActive: true },
+];
+
+describe('mutateOptimistically', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('applies the change before the request settles and merges the server record', async () => {
+    const table = createTable(rows);
+    let respond: (row: Row) => void = () => {};
+
+    const mutation = mutateOptimistically({
+      items: table.items,
+      setItems: table.setItems,
+      id: 2,
+      change: (row) => ({ ...row, isActive: false }),
+      request: () => new Promise<Row>((resolve) => (respond = resolve)),
+      errorMessage: 'Error al desactivar',
+      successMessage: 'Desactivado',
+    });
+
+    expect(table.items[1].isActive).toBe(false);
+    respond({ id: 2, name: 'Luis Pérez', isActive: false });
+
+    await expect(mutation).resolves.toBe(true);
+    expect(table.items[1]).toEqual({ id: 2, name: 'Luis Pérez', isActive: false });
+    expect(toast.success).toHaveBeenCalledWith('Desactivado');
+  });
+
+  it('restores only the failed row and shows the server message', async () => {
+    const table = createTable(rows);
+    let fail: (error: unknown) => void = () => {};
+
+    const mutation = mutateOptimistically({
+      items: table.items,
+      setItems: table.setItems,
+      id: 2,
+      change: (row) => ({ ...row, isActive: false }),
+      request: () => new Promise((_, reject) => (fail = reject)),
+      errorMessage: 'Error al desactivar',
+    });
+
+    // Another row changes while the request is in flight
+    table.setItems((current) => current.map((row) => (row.id === 3 ? { ...row, name: 'Marta Ruiz' } : row)));
+    const message = 'El estudiante tiene notas abiertas';
+    fail(new ApiError(message, 409, {}, { data: { success: false, message } } as AxiosResponse<ApiResponse<unknown>>));
+
+    await expect(mutation).resolves.toBe(false);
+    expect(table.items).toEqual([rows[0], rows[1], { ...rows[2], name: 'Marta Ruiz' }]);
+    expect(toast.error).toHaveBeenCalledWith('El estudiante tiene notas abiertas');
+  });
+
+  it('puts a deleted row back in its place when the request fails', async () => {
+    const table = createTable(rows);
+
+    const deleted = await mutateOptimistically({
+      items: table.items,
+      setItems: table.setItems,
+      id: 2,
+      change: () => null,
+      request: () => Promise.reject(new Error('Network Error')),
+      errorMessage: 'Error al eliminar',
+    });
+
+    expect(deleted).toBe(false);
+    expect(table.items).toEqual(rows);
+  });
+});
@@ -0,0 +1,67 @@
+import type { Dispatch, SetStateAction } from 'react';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '../api/errors';
+
+interface OptimisticMutation<T extends { id: number }, R> {
+  /** The list shown in the table, as currently rendered */
+  items: T[];
+  setItems: Dispatch<SetStateAction<T[]>>;
+  /** Row the mutation applies to */
+  id: number;
+  /** Expected row after the mutation, or null when the row leaves the list */
+  change: (item: T) => T | null;
+  request: () => Promise<R>;
+  /** Shown when the server does not send a message of its own */
+  errorMessage: string;
+  successMessage?: string;
+}
+
+const isRecord = (value: unknown, id: number): value is { id: number } =>
+  typeof value === 'object' && value !== null && (value as { id?: unknown }).id === id;
+
+/**
+ * Applies a row mutation to the table right away and sends it afterwards.
+ * When the server answers with the updated record it is merged into the row;
+ * on failure only that row is restored, so concurrent mutations of other rows
+ * are kept, and the server's error message is shown. Resolves to whether the
+ * mutation succeeded.
+ */
+export async function mutateOptimistically<T extends { id: number }, R = unknown>({
+  items,
+  setItems,
+  id,
+  change,
+  request,
+  errorMessage,
+  successMessage,
+}: OptimisticMutation<T, R>): Promise<boolean> {
+  const originalIndex = items.findIndex((item) => item.id === id);
+  const original = items[originalIndex];
+  if (!original) return false;
+
+  const changed = change(original);
+  setItems((current) =>
+    changed ? current.map((item) => (item.id === id ? changed : item)) : current.filter((item) => item.id !== id)
+  );
+
+  try {
+    const result = await request();
+    if (isRecord(result, id)) {
+      setItems((current) => current.map((item) => (item.id === id ? { ...item, ...result } : item)));
+    }
+    if (successMessage) toast.success(successMessage);
+    return true;
+  } catch (error) {
+    console.error('Error applying optimistic update:', error);
+    setItems((current) => {
+      if (current.some((item) => item.id === id)) {
+        return current.map((item) => (item.id === id ? original : item));
+      }
+      const next = [...current];
+      next.splice(Math.min(originalIndex, next.length), 0, original);
+      return next;
+    });
+    toast.error(getApiErrorMessage(error, errorMessage));
+    return false;
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { resolvePermissions } from './permissions';
+import { PERMISSIONS, ROLES } from '../constants';
+
+describe('resolvePermissions', () => {
+  it('grants nothing without a user', () => {
+    expect(resolvePermissions(null).size).toBe(0);
+  });
+
+  it('grants the defaults of every built-in role the user holds', () => {
+    const permissions = resolvePermissions({ roles: [ROLES.ESTUDIANTE], permissions: [] });
+
+    expect(permissions.has(PERMISSIONS.GRADES_READ_OWN)).toBe(true);
+    expect(permissions.has(PERMISSIONS.GRADES_READ)).toBe(false);
+  });
+
+  it('keeps student and course management for professors', () => {
+    const permissions = resolvePermissions({ roles: [ROLES.PROFESOR], permissions: [] });
+
+    expect(permissions.has(PERMISSIONS.STUDENTS_WRITE)).toBe(true);
+    expect(permissions.has(PERMISSIONS.COURSES_WRITE)).toBe(true);
+    expect(permissions.has(PERMISSIONS.USERS_MANAGE)).toBe(false);
+  });
+
+  it('adds the permissions of custom roles sent by the backend', () => {
+    const permissions = resolvePermissions({
+      roles: [ROLES.USUARIO, 'Coordinador'],
+      permissions: [PERMISSIONS.ENROLLMENTS_MANAGE],
+    });
+
+    expect(permissions.has(PERMISSIONS.ENROLLMENTS_MANAGE)).toBe(true);
+    expect(permissions.has(PERMISSIONS.DASHBOARD_VIEW)).toBe(true);
+  });
+});
@@ -0,0 +1,16 @@
+import { ROLE_PERMISSIONS } from '../constants';
+import type { AuthUser } from '../types';
+
+/**
+ * Effective permissions of a user: the ones granted explicitly by the backend
+ * (custom roles) plus the defaults of every built-in role the user holds.
+ */
+export function resolvePermissions(user: Pick<AuthUser, 'roles' | 'permissions'> | null): Set<string> {
+  const permissions = new Set<string>(user?.permissions ?? []);
+
+  user?.roles.forEach((role) => {
+    ROLE_PERMISSIONS[role]?.forEach((permission) => permissions.add(permission));
+  });
+
+  return permissions;
+}
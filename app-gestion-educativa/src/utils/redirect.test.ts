@@ -0,0 +1,29 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { getSafeRedirect } from './redirect';
+import { HOME_PATH, LOGIN_PATH } from '../constants';
+
+describe('getSafeRedirect', () => {
+  it('keeps in-app paths with their query and hash', () => {
+    expect(getSafeRedirect('/students?page=2#list')).toBe('/students?page=2#list');
+  });
+
+  it('falls back to the home page without a target', () => {
+    expect(getSafeRedirect(null)).toBe(HOME_PATH);
+    expect(getSafeRedirect('')).toBe(HOME_PATH);
+  });
+
+  it.each([
+    'https://evil.example.com',
+    '//evil.example.com',
+    '/\\evil.example.com',
+    'javascript:alert(1)',
+    'students',
+  ])('rejects %s', (target) => {
+    expect(getSafeRedirect(target)).toBe(HOME_PATH);
+  });
+
+  it('never sends the user back to the login page', () => {
+    expect(getSafeRedirect(`${LOGIN_PATH}?redirect=%2Fstudents`)).toBe(HOME_PATH);
+  });
+});
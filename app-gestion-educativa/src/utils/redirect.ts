@@ -0,0 +1,42 @@
+import { HOME_PATH, LOGIN_PATH } from '../constants';
+
+export const REDIRECT_PARAM = 'redirect';
+
+/**
+ * Returns the in-app path to go to after login, falling back to the home page.
+ * Only same-origin relative paths are accepted, so a crafted `?redirect=` link
+ * cannot send the user to another site.
+ */
+export function getSafeRedirect(target: string | null | undefined): string {
+  if (!target) return HOME_PATH;
+
+  // Must be a relative path: reject protocol-relative (`//host`), backslash
+  // tricks (`/\host`) and anything with a scheme
+  if (!target.startsWith('/') || target.startsWith('//') || target.includes('\\')) {
+    return HOME_PATH;
+  }
+
+  try {
+    const url = new URL(target, window.location.origin);
+    if (url.origin !== window.location.origin || url.pathname === LOGIN_PATH) {
+      return HOME_PATH;
+    }
+
+    return `${url.pathname}${url.search}${url.hash}`;
+  } catch {
+    return HOME_PATH;
+  }
+}
+
+/**
+ * Login URL that remembers the current page, for full-page redirects outside React Router.
+ */
+export function buildLoginUrl(): string {
+  const { pathname, search, hash } = window.location;
+
+  if (pathname === LOGIN_PATH) {
+    return LOGIN_PATH;
+  }
+
+  return `${LOGIN_PATH}?${REDIRECT_PARAM}=${encodeURIComponent(`${pathname}${search}${hash}`)}`;
+}
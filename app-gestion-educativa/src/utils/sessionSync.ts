@@ -0,0 +1,41 @@
+import { SESSION_SYNC_CHANNEL } from '../constants';
+import { tenants } from './tenant';
+
+// Messages exchanged between tabs so every AuthProvider sees the same session
+export type SessionSyncMessage =
+  | { type: 'login'; userId: number }
+  | { type: 'refresh'; userId: number }
+  | { type: 'logout' };
+
+// Sessions are kept per campus, so tabs only follow the campus they are on
+interface SessionSyncEnvelope {
+  tenantId: string;
+  message: SessionSyncMessage;
+}
+
+const channel =
+  typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SESSION_SYNC_CHANNEL) : null;
+
+export const sessionSync = {
+  /**
+   * Notify the other tabs. A tab never receives its own messages.
+   */
+  broadcast(message: SessionSyncMessage): void {
+    channel?.postMessage({ tenantId: tenants.current().id, message } satisfies SessionSyncEnvelope);
+  },
+
+  /**
+   * Listen for session changes made in other tabs. Returns the unsubscribe function.
+   */
+  subscribe(listener: (message: SessionSyncMessage) => void): () => void {
+    if (!channel) return () => {};
+
+    const handler = (event: MessageEvent<SessionSyncEnvelope>) => {
+      if (event.data.tenantId === tenants.current().id) {
+        listener(event.data.message);
+      }
+    };
+    channel.addEventListener('message', handler);
+    return () => channel.removeEventListener('message', handler);
+  },
+};
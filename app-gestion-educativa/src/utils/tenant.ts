@@ -0,0 +1,96 @@
+import { API_BASE_URL, TENANTS_CONFIG, TENANT_KEY } from '../constants';
+
+// Campus (sede) whose backend the app is talking to. Every campus has its own
+// API and sessions. The selection belongs to the tab (sessionStorage, so a
+// reload keeps it even if another tab switched meanwhile); the last one made
+// anywhere (localStorage) is only the starting point of new tabs.
+export interface Tenant {
+  id: string;
+  name: string;
+  apiBaseUrl: string;
+}
+
+// Used when VITE_TENANTS is not set: a single campus behind API_BASE_URL
+export const DEFAULT_TENANT_ID = 'default';
+
+const isTenant = (value: unknown): value is Tenant => {
+  const tenant = value as Partial<Tenant> | null;
+  return (
+    typeof tenant?.id === 'string' &&
+    typeof tenant.name === 'string' &&
+    typeof tenant.apiBaseUrl === 'string'
+  );
+};
+
+const parseTenants = (config: string | undefined): Tenant[] => {
+  if (config) {
+    try {
+      const parsed: unknown = JSON.parse(config);
+      if (Array.isArray(parsed) && parsed.length > 0 && parsed.every(isTenant)) {
+        return parsed;
+      }
+    } catch {
+      // Reported below
+    }
+    console.error('Invalid VITE_TENANTS, expected a JSON array of { id, name, apiBaseUrl }');
+  }
+  return [{ id: DEFAULT_TENANT_ID, name: 'CESDE', apiBaseUrl: API_BASE_URL }];
+};
+
+const TENANTS = parseTenants(TENANTS_CONFIG);
+
+const readStoredTenant = (): Tenant => {
+  try {
+    const id = window.sessionStorage.getItem(TENANT_KEY) ?? window.localStorage.getItem(TENANT_KEY);
+    return TENANTS.find((tenant) => tenant.id === id) ?? TENANTS[0];
+  } catch {
+    return TENANTS[0];
+  }
+};
+
+const listeners = new Set<() => void>();
+
+let current = readStoredTenant();
+
+export const tenants = {
+  list(): Tenant[] {
+    return TENANTS;
+  },
+
+  /**
+   * Whether there is more than one campus to choose from.
+   */
+  isSelectable(): boolean {
+    return TENANTS.length > 1;
+  },
+
+  current(): Tenant {
+    return current;
+  },
+
+  /**
+   * Listen for campus switches. Returns the unsubscribe function.
+   */
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  /**
+   * Point the app at another campus. Use authService.switchTenant, which also
+   * drops the data cached for the previous one.
+   */
+  select(id: string): void {
+    const tenant = TENANTS.find((item) => item.id === id);
+    if (!tenant || tenant.id === current.id) return;
+
+    current = tenant;
+    try {
+      window.sessionStorage.setItem(TENANT_KEY, tenant.id);
+      window.localStorage.setItem(TENANT_KEY, tenant.id);
+    } catch {
+      // The choice still applies to this tab
+    }
+    listeners.forEach((listener) => listener());
+  },
+};
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AUTH_TOKEN_KEY, TOKEN_STORAGE_KIND_KEY } from '../constants';
+
+const CAMPUSES = [
+  { id: 'medellin', name: 'Sede Medellín', apiBaseUrl: 'https://medellin.example.com/api' },
+  { id: 'bogota', name: 'Sede Bogotá', apiBaseUrl: 'https://bogota.example.com/api' },
+];
+
+// Fresh modules, so the campus list and stored choices are read again
+const load = async (tenantsConfig?: string) => {
+  vi.resetModules();
+  if (tenantsConfig) vi.stubEnv('VITE_TENANTS', tenantsConfig);
+  const [{ tokenStorage }, { tenants }] = await Promise.all([import('./tokenStorage'), import('./tenant')]);
+  return { tokenStorage, tenants };
+};
+
+describe('tokenStorage', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    window.localStorage.clear();
+    window.sessionStorage.clear();
+  });
+
+  it('keeps the keys of the single default campus unprefixed', async () => {
+    const { tokenStorage } = await load();
+
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'token');
+
+    expect(window.localStorage.getItem(AUTH_TOKEN_KEY)).toBe('token');
+  });
+
+  it('keeps a separate session per campus', async () => {
+    const { tokenStorage, tenants } = await load(JSON.stringify(CAMPUSES));
+
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'medellin-token');
+    tenants.select('bogota');
+
+    expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'bogota-token');
+
+    tenants.select('medellin');
+    expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBe('medellin-token');
+    expect(window.localStorage.getItem(`bogota:${AUTH_TOKEN_KEY}`)).toBe('bogota-token');
+  });
+
+  it('follows the storage choice of each campus', async () => {
+    const { tokenStorage, tenants } = await load(JSON.stringify(CAMPUSES));
+
+    tokenStorage.use('session');
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'medellin-token');
+    tenants.select('bogota');
+
+    expect(tokenStorage.getKind()).toBe('local');
+    expect(window.sessionStorage.getItem(`medellin:${AUTH_TOKEN_KEY}`)).toBe('medellin-token');
+
+    tenants.select('medellin');
+    expect(tokenStorage.getKind()).toBe('session');
+    expect(window.localStorage.getItem(`medellin:${TOKEN_STORAGE_KIND_KEY}`)).toBe('session');
+  });
+
+  it('removes the session from the previous storage when the choice changes', async () => {
+    const { tokenStorage } = await load();
+
+    tokenStorage.setItem(AUTH_TOKEN_KEY, 'token');
+    tokenStorage.use('session');
+
+    expect(window.localStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+    expect(tokenStorage.getItem(AUTH_TOKEN_KEY)).toBeNull();
+  });
+});
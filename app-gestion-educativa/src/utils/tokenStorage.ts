@@ -0,0 +1,106 @@
+import {
+  AUTH_TOKEN_KEY,
+  AUTH_USER_KEY,
+  TOKEN_EXPIRATION_KEY,
+  IMPERSONATOR_SESSION_KEY,
+  TOKEN_STORAGE_KIND_KEY,
+} from '../constants';
+import { DEFAULT_TENANT_ID, tenants } from './tenant';
+
+// Where the session (token, user, expiration) is kept:
+// - local: survives browser restarts ("remember me")
+// - session: cleared when the tab is closed, only visible to that tab
+// - memory: cleared on reload, used when Web Storage is unavailable
+// Every campus keeps its own session and storage choice, so switching back to
+// a campus finds the user still signed in there.
+export type TokenStorageKind = 'local' | 'session' | 'memory';
+
+interface StorageBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+const createMemoryBackend = (): StorageBackend => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
+
+// Web Storage can throw (disabled cookies, Safari private mode); probe it once
+const getWebStorage = (kind: 'local' | 'session'): Storage | null => {
+  try {
+    const storage = kind === 'local' ? window.localStorage : window.sessionStorage;
+    const probe = '__token_storage_probe__';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+};
+
+const backends: Record<TokenStorageKind, StorageBackend> = {
+  local: getWebStorage('local') ?? createMemoryBackend(),
+  session: getWebStorage('session') ?? createMemoryBackend(),
+  memory: createMemoryBackend(),
+};
+
+// Keys of the default campus are left as they were before campuses existed
+const scoped = (key: string) => {
+  const { id } = tenants.current();
+  return id === DEFAULT_TENANT_ID ? key : `${id}:${key}`;
+};
+
+const readStoredKind = (): TokenStorageKind => {
+  const kind = backends.local.getItem(scoped(TOKEN_STORAGE_KIND_KEY));
+  return kind === 'session' || kind === 'memory' ? kind : 'local';
+};
+
+let currentKind: TokenStorageKind = readStoredKind();
+
+tenants.subscribe(() => {
+  currentKind = readStoredKind();
+});
+
+// Session keys, cleared from the previous backend on switch
+const SESSION_KEYS = [AUTH_TOKEN_KEY, AUTH_USER_KEY, TOKEN_EXPIRATION_KEY, IMPERSONATOR_SESSION_KEY];
+
+export const tokenStorage = {
+  getItem(key: string): string | null {
+    return backends[currentKind].getItem(scoped(key));
+  },
+
+  setItem(key: string, value: string): void {
+    backends[currentKind].setItem(scoped(key), value);
+  },
+
+  removeItem(key: string): void {
+    backends[currentKind].removeItem(scoped(key));
+  },
+
+  getKind(): TokenStorageKind {
+    return currentKind;
+  },
+
+  /**
+   * Switch backend before storing a new session. Leftovers in the previous
+   * backend are removed so a token never outlives the user's choice.
+   */
+  use(kind: TokenStorageKind): void {
+    if (kind !== currentKind) {
+      SESSION_KEYS.forEach((key) => backends[currentKind].removeItem(scoped(key)));
+    }
+
+    currentKind = kind;
+    // The preference itself is not sensitive and must survive reloads to find the session
+    backends.local.setItem(scoped(TOKEN_STORAGE_KIND_KEY), kind);
+  },
+};